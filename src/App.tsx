@@ -1,402 +1,2436 @@
-import React, { useEffect, useMemo, useRef, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { saveAs } from "file-saver";
 import { jsPDF } from "jspdf";
 import "./theme.css";
+import {
+  DEFAULT_PARAMS,
+  DM_MAX_QUBITS,
+  GATE_ARITY,
+  GATE_PARAMS,
+  IMPLICIT_CONTROLS,
+  MAX_QUBITS,
+  NO_NOISE,
+  STATEVECTOR_MAX_QUBITS,
+  amp,
+  ampNorm2,
+  applyGate,
+  assignSymbols,
+  basisChange,
+  blochPurity,
+  blochVectors,
+  circuitSymbols,
+  concurrence,
+  emptyCircuit,
+  expandComposite,
+  expectation,
+  gateMatrix,
+  gateQubits,
+  inlineComposites,
+  inverseGate,
+  measuredBit,
+  norm2,
+  parseObservable,
+  sampleCounts,
+  seededRandom,
+  shiftGate,
+  subsystemEntropy,
+} from "./simulator.ts";
+import type {
+  BackendInfo,
+  Bloch,
+  Circuit,
+  Complex,
+  Condition,
+  Control,
+  Gate,
+  GateDefinition,
+  GateType,
+  Moment,
+  NoiseModel,
+  NoiseRates,
+  Pauli,
+  PauliTerm,
+  Random,
+  SimRequest,
+  SimResponse,
+  SimResult,
+  State,
+} from "./simulator.ts";
+import type { OptimizerMethod, Target, VariationalMessage, VariationalRequest } from "./variational.ts";
 
-/* ================= Quantum math utils ================= */
-const SQRT1_2 = Math.SQRT1_2;
-
-type Complex = { re: number; im: number };
-const c = (re = 0, im = 0): Complex => ({ re, im });
-const add = (a: Complex, b: Complex) => c(a.re + b.re, a.im + b.im);
-const mul = (a: Complex, b: Complex) =>
-  c(a.re * b.re - a.im * b.im, a.re * b.im + a.im * b.re);
-const norm2 = (a: Complex) => a.re * a.re + a.im * a.im;
-
-function zeroState(nQubits: number): Complex[] {
-  const N = 1 << nQubits;
-  const st = Array.from({ length: N }, () => c(0, 0));
-  st[0] = c(1, 0);
-  return st;
-}
-
-function apply1Q(
-  st: Complex[],
-  t: number,
-  m00: Complex,
-  m01: Complex,
-  m10: Complex,
-  m11: Complex
-) {
-  const N = st.length;
-  const bit = 1 << t;
-  for (let i = 0; i < N; i++) {
-    if ((i & bit) === 0) {
-      const j = i | bit;
-      const a0 = st[i];
-      const a1 = st[j];
-      const r0 = add(mul(m00, a0), mul(m01, a1));
-      const r1 = add(mul(m10, a0), mul(m11, a1));
-      st[i] = r0;
-      st[j] = r1;
-    }
-  }
+/* ================= UI & helpers ================= */
+function uid() {
+  return Math.random().toString(36).slice(2, 9);
 }
 
-function applyX(st: Complex[], t: number) {
-  const N = st.length;
-  const bit = 1 << t;
-  for (let i = 0; i < N; i++) {
-    if ((i & bit) === 0) {
-      const j = i | bit;
-      const tmp = st[i];
-      st[i] = st[j];
-      st[j] = tmp;
-    }
-  }
-}
+const GATE_LABEL: Record<GateType, string> = {
+  H: "H",
+  X: "X",
+  Y: "Y",
+  Z: "Z",
+  S: "S",
+  SDG: "S†",
+  T: "T",
+  TDG: "T†",
+  RX: "RX",
+  RY: "RY",
+  RZ: "RZ",
+  P: "P",
+  U3: "U3",
+  CX: "⊕", // only used as fallback text in certain renderings
+  CZ: "CZ",
+  SWAP: "SWAP",
+  CCX: "CCX",
+  CSWAP: "CSWAP",
+  MEASURE: "M",
+  CUSTOM: "Custom", // instances show their definition's name, see gateText
+};
 
-function applyH(st: Complex[], t: number) {
-  const s = SQRT1_2;
-  apply1Q(st, t, c(s, 0), c(s, 0), c(s, 0), c(-s, 0));
+// Short gate name for buttons and history entries.
+const gateName = (type: GateType) => (type === "CX" ? "CX" : GATE_LABEL[type]);
+
+// True when a keyboard event comes from a text field, so global shortcuts stay out of the way.
+function isTextInput(target: EventTarget | null) {
+  const el = target as HTMLElement | null;
+  return !!el && (el.tagName === "INPUT" || el.tagName === "TEXTAREA" || el.tagName === "SELECT" || el.isContentEditable);
 }
 
-function applyCX(st: Complex[], control: number, target: number) {
-  const N = st.length;
-  const cbit = 1 << control;
-  const tbit = 1 << target;
-  for (let i = 0; i < N; i++) {
-    if ((i & cbit) !== 0 && (i & tbit) === 0) {
-      const j = i | tbit;
-      const tmp = st[i];
-      st[i] = st[j];
-      st[j] = tmp;
+// Gate Palette rows: fixed single-qubit, rotations, multi-qubit, measurement.
+const PALETTE: GateType[][] = [
+  ["H", "X", "Y", "Z", "S", "SDG", "T", "TDG"],
+  ["RX", "RY", "RZ", "P", "U3"],
+  ["CX", "CZ", "SWAP", "CCX", "CSWAP"],
+  ["MEASURE"],
+];
+
+/* ==== Angles: display + expression parsing ==== */
+const ANGLE_FUNCS: Record<string, (x: number) => number> = {
+  sin: Math.sin, cos: Math.cos, tan: Math.tan,
+  asin: Math.asin, acos: Math.acos, atan: Math.atan,
+  exp: Math.exp, ln: Math.log, sqrt: Math.sqrt,
+};
+
+// Render an angle as a small multiple of π when possible ("π/4", "-3π/2"), else as a decimal.
+function formatAngle(theta: number): string {
+  if (Math.abs(theta) < 1e-12) return "0";
+  for (const d of [1, 2, 3, 4, 6, 8, 12, 16]) {
+    const k = (theta / Math.PI) * d;
+    const kr = Math.round(k);
+    if (Math.abs(k - kr) < 1e-9 && kr !== 0) {
+      const sign = kr < 0 ? "-" : "";
+      const num = Math.abs(kr) === 1 ? "π" : `${Math.abs(kr)}π`;
+      return d === 1 ? `${sign}${num}` : `${sign}${num}/${d}`;
     }
   }
+  return String(+theta.toFixed(3));
 }
 
-function probsFromState(st: Complex[]): number[] {
-  return st.map((z) => norm2(z));
-}
-
-function sampleCounts(probs: number[], shots: number): Record<string, number> {
-  const counts: Record<string, number> = {};
-  const N = probs.length;
-  for (let s = 0; s < shots; s++) {
-    let r = Math.random();
-    let acc = 0;
-    for (let i = 0; i < N; i++) {
-      acc += probs[i];
-      if (r <= acc) {
-        const key = i.toString(2).padStart(Math.log2(N), "0");
-        counts[key] = (counts[key] || 0) + 1;
-        break;
-      }
+// Parse an angle expression such as "pi/3", "-3*pi/4", "2π", "0.25" or "acos(1/3)".
+// Grammar: expr = term (("+"|"-") term)*; term = unary (("*"|"/") unary)*;
+//          unary = "-" unary | power; power = atom ("^" unary)?;
+//          atom = number | "pi" | "π" | "tau" | "e" | func "(" expr ")" | "(" expr ")".
+function parseAngle(src: string): number {
+  let pos = 0;
+  const fail = (msg: string): never => {
+    throw new Error(`${msg} at position ${pos + 1}`);
+  };
+  const skip = () => {
+    while (pos < src.length && /\s/.test(src[pos])) pos++;
+  };
+  const peek = () => {
+    skip();
+    return src[pos];
+  };
+  const atom = (): number => {
+    const ch = peek();
+    if (ch === undefined) return fail("Unexpected end of expression");
+    if (ch === "(") {
+      pos++;
+      const v = expr();
+      if (peek() !== ")") fail("Expected ')'");
+      pos++;
+      return v;
+    }
+    const num = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(src.slice(pos));
+    if (num) {
+      pos += num[0].length;
+      return parseFloat(num[0]);
+    }
+    const fn = /^(sin|cos|tan|asin|acos|atan|exp|ln|sqrt)\s*\(/i.exec(src.slice(pos));
+    if (fn) {
+      pos += fn[0].length - 1;
+      const arg = atom();
+      return ANGLE_FUNCS[fn[1].toLowerCase()](arg);
+    }
+    const word = /^(pi|π|tau|e)(?![A-Za-z0-9_])/i.exec(src.slice(pos));
+    if (word) {
+      pos += word[0].length;
+      const w = word[0].toLowerCase();
+      return w === "tau" ? 2 * Math.PI : w === "e" ? Math.E : Math.PI;
+    }
+    return fail(`Unexpected '${ch}'`);
+  };
+  const power = (): number => {
+    const base = atom();
+    if (peek() === "^") {
+      pos++;
+      return Math.pow(base, unary());
+    }
+    return base;
+  };
+  const unary = (): number => {
+    const ch = peek();
+    if (ch === "-") { pos++; return -unary(); }
+    if (ch === "+") { pos++; return unary(); }
+    return power();
+  };
+  const term = (): number => {
+    let v = unary();
+    for (;;) {
+      const ch = peek();
+      if (ch === "*") { pos++; v *= unary(); }
+      else if (ch === "/") { pos++; v /= unary(); }
+      else return v;
+    }
+  };
+  function expr(): number {
+    let v = term();
+    for (;;) {
+      const ch = peek();
+      if (ch === "+") { pos++; v += term(); }
+      else if (ch === "-") { pos++; v -= term(); }
+      else return v;
     }
   }
-  return counts;
+  const v = expr();
+  if (peek() !== undefined) fail(`Unexpected '${src[pos]}'`);
+  if (!Number.isFinite(v)) throw new Error("Angle is not a finite number");
+  return v;
 }
 
-/* ================= Circuit model ================= */
-type GateType = "H" | "X" | "CX" | "MEASURE";
-
-type Gate = {
-  id: string;
-  type: GateType;
-  targets: number[]; // [q] or [control, target] for CX
-};
-
-type Moment = { t: number; gates: Gate[] };
+// Box label for a gate, e.g. "RY(π/4)", "U3(π/2,0,π)", "RX(θ)" for a bound angle or "QFT†".
+function gateText(g: Gate): string {
+  if (g.type === "CUSTOM") return `${g.name}${g.dagger ? "†" : ""}`;
+  const names = GATE_PARAMS[g.type];
+  if (!names) return GATE_LABEL[g.type];
+  const p = g.params ?? DEFAULT_PARAMS[g.type] ?? [];
+  return `${GATE_LABEL[g.type]}(${p.map((v, i) => g.symbols?.[i] ?? formatAngle(v)).join(",")})`;
+}
 
-type Circuit = {
-  nQubits: number;
-  moments: Moment[];
-};
+// Names an angle can be bound to: θ, phi_1, …
+const SYMBOL_RE = /^[\p{L}_][\p{L}\p{N}_]*$/u;
 
-function emptyCircuit(nQubits = 2): Circuit {
-  return { nQubits, moments: [] };
-}
+/* ================= OpenQASM import / export ================= */
+type QasmVersion = "2.0" | "3.0";
 
-function simulateCircuit(circ: Circuit) {
-  let st = zeroState(circ.nQubits);
-  for (const m of circ.moments) {
-    for (const g of m.gates) {
-      if (g.type === "H") applyH(st, g.targets[0]);
-      else if (g.type === "X") applyX(st, g.targets[0]);
-      else if (g.type === "CX") applyCX(st, g.targets[0], g.targets[1]);
-      // MEASURE: no collapse; we display probabilities
-    }
+// Parse/serialisation error pointing at a 1-based line and column of the source.
+class QasmError extends Error {
+  line: number;
+  col: number;
+  constructor(message: string, line: number, col: number) {
+    super(`${line}:${col}: ${message}`);
+    this.name = "QasmError";
+    this.line = line;
+    this.col = col;
   }
-  const probs = probsFromState(st);
-  return { probs };
-}
-
-/* ================= UI & helpers ================= */
-function uid() {
-  return Math.random().toString(36).slice(2, 9);
 }
 
-const GATE_LABEL: Record<GateType, string> = {
-  H: "H",
-  X: "X",
-  CX: "⊕", // only used as fallback text in certain renderings
-  MEASURE: "M",
+const QASM_NAME: Record<Exclude<GateType, "MEASURE" | "CUSTOM">, string> = {
+  H: "h", X: "x", Y: "y", Z: "z", S: "s", SDG: "sdg", T: "t", TDG: "tdg",
+  RX: "rx", RY: "ry", RZ: "rz", P: "p", U3: "u3",
+  CX: "cx", CZ: "cz", SWAP: "swap", CCX: "ccx", CSWAP: "cswap",
 };
 
-/* ==== Theme (light default, dark optional) ==== */
-const THEMES = {
-  light: {
-    bg: "#ffffff",
-    grid: "#e5e7eb",
-    wire: "#9ca3af",
-    node: "#6b7280",
-    text: "#1f2937",
-    label: "#6b7280",
-    select: "#14b8a6",
-    gates: {
-      hFill: "#ef4444",
-      hText: "#ffffff",
-      xStroke: "#3b82f6",
-      cxControl: "#3b82f6",
-      measureStroke: "#6b7280",
-    },
-  },
-  dark: {
-    bg: "#0f172a",
-    grid: "#1e293b",
-    wire: "#64748b",
-    node: "#94a3b8",
-    text: "#f8fafc",
-    label: "#94a3b8",
-    select: "#22d3ee",
-    gates: {
-      hFill: "#ef4444",
-      hText: "#ffffff",
-      xStroke: "#60a5fa",
-      cxControl: "#60a5fa",
-      measureStroke: "#cbd5e1",
-    },
-  },
+// qelib1.inc spellings of gates with one extra positive control (OpenQASM 2.0 has no modifiers).
+const QASM2_CONTROLLED: Partial<Record<GateType, string>> = {
+  X: "cx", Y: "cy", Z: "cz", H: "ch", RX: "crx", RY: "cry", RZ: "crz", P: "cu1", U3: "cu3",
+  CX: "ccx", SWAP: "cswap",
 };
-type ThemeKey = keyof typeof THEMES;
 
-/* ================= Main App ================= */
-export default function App() {
-  const [circuit, setCircuit] = useState<Circuit>(() => emptyCircuit(2));
-  const [shots, setShots] = useState(512);
+// Angles as "pi/4", "-3*pi/2" when they are simple multiples of π, else plain decimals.
+function qasmAngle(theta: number): string {
+  const pretty = formatAngle(theta);
+  if (!pretty.includes("π")) return String(+theta.toPrecision(12));
+  return pretty.replace(/^(-?)(\d+)π/, "$1$2*pi").replace("π", "pi");
+}
 
-  // Theme with persistence
-  const [theme, setTheme] = useState<ThemeKey>(() => {
-    const saved = localStorage.getItem("theme") as ThemeKey | null;
-    if (saved === "light" || saved === "dark") return saved;
-    const prefersDark =
-      window.matchMedia &&
-      window.matchMedia("(prefers-color-scheme: dark)").matches;
-    return prefersDark ? "dark" : "light";
-  });
-  useEffect(() => {
-    document.body.classList.remove("theme-light", "theme-dark");
-    document.body.classList.add(theme === "dark" ? "theme-dark" : "theme-light");
-    localStorage.setItem("theme", theme);
-  }, [theme]);
+function gateToQasm(g: Gate, circ: Circuit, v3: boolean): string[] {
+  const q = (i: number) => `q[${i}]`;
+  let prefix = "";
+  const cond = g.condition;
+  if (cond) {
+    if (!cond.bits.length) throw new Error(`${g.type} has a condition without classical bits`);
+    const whole = cond.bits.length === circ.nClbits && cond.bits.every((b, k) => b === k);
+    if (whole) prefix = v3 ? `if (c == ${cond.value}) ` : `if(c==${cond.value}) `;
+    else if (v3) prefix = `if (${cond.bits.map((b, k) => `c[${b}] == ${(cond.value >> k) & 1}`).join(" && ")}) `;
+    else throw new Error(`${g.type} tests single classical bits, which OpenQASM 2.0 cannot express; export as 3.0`);
+  }
 
-  const [selected, setSelected] = useState<{ t: number; id: string } | null>(
-    null
-  );
+  if (g.type === "CUSTOM") throw new Error("Custom gates are inlined before export");
+  if (g.type === "MEASURE") {
+    const line = v3 ? `c[${measuredBit(g)}] = measure ${q(g.targets[0])};` : `measure ${q(g.targets[0])} -> c[${measuredBit(g)}];`;
+    return [prefix + line];
+  }
 
-  // drag state (active drag only)
-  const [drag, setDrag] = useState<
-    | null
-    | {
-        id: string;
-        t: number;
-        type: GateType;
-        targets: number[];
-        dx: number; // local offset inside cell (xCenter)
-        dy: number; // local offset inside cell (yCenter)
-        transformPx?: { tx: number; ty: number }; // live pixel transform for smooth tracking
-      }
-  >(null);
+  const p = g.params ?? DEFAULT_PARAMS[g.type] ?? [];
+  const args = p.length ? `(${p.map(qasmAngle).join(", ")})` : "";
+  const controls = g.controls ?? [];
+  if (v3) {
+    const mods = controls.map((ctl) => (ctl.negated ? "negctrl @ " : "ctrl @ ")).join("");
+    const wires = [...controls.map((ctl) => ctl.qubit), ...g.targets].map(q).join(", ");
+    return [`${prefix}${mods}${QASM_NAME[g.type]}${args} ${wires};`];
+  }
 
-  const svgRef = useRef<SVGSVGElement | null>(null);
+  // OpenQASM 2.0: a single extra control maps to the qelib1 "c…" gate, negated controls are
+  // conjugated with X
+  let name = QASM_NAME[g.type];
+  if (controls.length > 1 || (controls.length === 1 && !QASM2_CONTROLLED[g.type])) {
+    throw new Error(`Controlled ${g.type} has no OpenQASM 2.0 equivalent; export as 3.0`);
+  }
+  if (controls.length === 1) name = QASM2_CONTROLLED[g.type]!;
+  if (g.type === "P") name = controls.length ? "cu1" : "u1";
+  const flips = controls.filter((ctl) => ctl.negated).map((ctl) => `${prefix}x ${q(ctl.qubit)};`);
+  const wires = [...controls.map((ctl) => ctl.qubit), ...g.targets].map(q).join(", ");
+  return [...flips, `${prefix}${name}${args} ${wires};`, ...flips];
+}
 
-  // Zoom/scroll container and zoom factor
-  const svgContainerRef = useRef<HTMLDivElement | null>(null);
-  const [canvasZoom, setCanvasZoom] = useState(1);
-  const [fitKey, setFitKey] = useState(0);
+// The same circuit with custom gates inlined and X/Y measurements spelled out as rotations
+// around a Z measurement, for formats without either. Everything stays in its own moment.
+function lowerForExport(circ: Circuit): Circuit {
+  circ = inlineComposites(circ);
+  if (!circ.moments.some((m) => m.gates.some((g) => g.basis && g.basis !== "Z"))) return circ;
+  const moments = circ.moments.map((m) => ({
+    ...m,
+    gates: m.gates.flatMap((g) => {
+      if (g.type !== "MEASURE" || !g.basis || g.basis === "Z") return [g];
+      const { before, after } = basisChange(g);
+      return [...before, { ...g, basis: undefined }, ...after];
+    }),
+  }));
+  return { ...circ, moments };
+}
 
-  // Fit to view whenever requested / structure changes
-  useEffect(() => {
-    const el = svgContainerRef.current;
-    if (!el) return;
+/**
+ * Serialise a circuit as OpenQASM. Moments are separated by `barrier q;`, so importing the
+ * text again keeps gate order and the unitary. Columns can still split: the importer keeps a
+ * gate clear of any other gate's vertical line (e.g. CX q0,q2 beside H q1).
+ */
+function toQasm(circ: Circuit, version: QasmVersion): string {
+  circ = lowerForExport(circ);
+  const v3 = version === "3.0";
+  const lines = v3
+    ? ["OPENQASM 3.0;", 'include "stdgates.inc";', `qubit[${circ.nQubits}] q;`]
+    : ["OPENQASM 2.0;", 'include "qelib1.inc";', `qreg q[${circ.nQubits}];`];
+  if (circ.nClbits > 0) lines.push(v3 ? `bit[${circ.nClbits}] c;` : `creg c[${circ.nClbits}];`);
+  let emitted = false;
+  for (const m of circ.moments) {
+    if (!m.gates.length) continue;
+    if (emitted) lines.push("barrier q;");
+    for (const g of m.gates) lines.push(...gateToQasm(g, circ, v3));
+    emitted = true;
+  }
+  return lines.join("\n") + "\n";
+}
 
-    const cellW = 72,
-      cellH = 56,
-      labelW = 36;
-    const cols = Math.max(1, circuit.moments.length || 1);
-    const contentW = labelW + cols * cellW;
-    const contentH = circuit.nQubits * cellH;
+type QasmToken = { kind: "id" | "num" | "str" | "sym"; text: string; line: number; col: number };
 
-    const margin = 16;
-    const fitX = contentW / Math.max(1, el.clientWidth - margin);
-    const fitY = contentH / Math.max(1, el.clientHeight - margin);
-    const z = 1 / Math.max(fitX, fitY);
-    const nz = Math.min(3, Math.max(0.4, +z.toFixed(2)));
-    setCanvasZoom(nz);
+function tokenizeQasm(src: string): QasmToken[] {
+  const toks: QasmToken[] = [];
+  let line = 1, col = 1, i = 0;
+  const advance = (n: number) => {
+    for (let k = 0; k < n; k++, i++) {
+      if (src[i] === "\n") { line++; col = 1; } else col++;
+    }
+  };
+  while (i < src.length) {
+    const rest = src.slice(i);
+    const ws = /^(\s+|\/\/[^\n]*|\/\*[\s\S]*?\*\/)/.exec(rest);
+    if (ws) { advance(ws[0].length); continue; }
+    if (rest.startsWith("/*")) throw new QasmError("Unterminated comment", line, col);
+    const m =
+      /^[A-Za-z_π][A-Za-z0-9_]*/.exec(rest) ??
+      /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(rest) ??
+      /^"[^"\n]*"/.exec(rest) ??
+      /^(->|==|&&|[;,()[\]{}+\-*/^=@])/.exec(rest);
+    if (!m) throw new QasmError(`Unexpected character '${rest[0]}'`, line, col);
+    const text = m[0];
+    const kind = /^[A-Za-z_π]/.test(text) ? "id" : /^[\d.]/.test(text) ? "num" : text[0] === '"' ? "str" : "sym";
+    toks.push({ kind, text, line, col });
+    advance(text.length);
+  }
+  return toks;
+}
 
-    requestAnimationFrame(() => {
-      const pxW = contentW * nz,
-        pxH = contentH * nz;
-      el.scrollLeft = Math.max(0, (pxW - el.clientWidth) / 2);
-      el.scrollTop = Math.max(0, (pxH - el.clientHeight) / 2);
-    });
-  }, [fitKey, circuit.moments.length, circuit.nQubits]);
+// Gate names accepted on import. `ctrl` leading operands become controls; `map` adapts params.
+const QASM_GATES: Record<string, { type: GateType; nParams: number; ctrl?: number; map?: (p: number[]) => number[] }> = {
+  h: { type: "H", nParams: 0 }, x: { type: "X", nParams: 0 }, y: { type: "Y", nParams: 0 },
+  z: { type: "Z", nParams: 0 }, s: { type: "S", nParams: 0 }, sdg: { type: "SDG", nParams: 0 },
+  t: { type: "T", nParams: 0 }, tdg: { type: "TDG", nParams: 0 },
+  rx: { type: "RX", nParams: 1 }, ry: { type: "RY", nParams: 1 }, rz: { type: "RZ", nParams: 1 },
+  p: { type: "P", nParams: 1 }, u1: { type: "P", nParams: 1 }, phase: { type: "P", nParams: 1 },
+  u2: { type: "U3", nParams: 2, map: ([phi, lambda]) => [Math.PI / 2, phi, lambda] },
+  u3: { type: "U3", nParams: 3 }, u: { type: "U3", nParams: 3 }, U: { type: "U3", nParams: 3 },
+  cx: { type: "CX", nParams: 0 }, CX: { type: "CX", nParams: 0 }, cnot: { type: "CX", nParams: 0 },
+  cz: { type: "CZ", nParams: 0 }, swap: { type: "SWAP", nParams: 0 },
+  ccx: { type: "CCX", nParams: 0 }, toffoli: { type: "CCX", nParams: 0 },
+  cswap: { type: "CSWAP", nParams: 0 }, fredkin: { type: "CSWAP", nParams: 0 },
+  cy: { type: "Y", nParams: 0, ctrl: 1 }, ch: { type: "H", nParams: 0, ctrl: 1 },
+  crx: { type: "RX", nParams: 1, ctrl: 1 }, cry: { type: "RY", nParams: 1, ctrl: 1 },
+  crz: { type: "RZ", nParams: 1, ctrl: 1 }, cp: { type: "P", nParams: 1, ctrl: 1 },
+  cu1: { type: "P", nParams: 1, ctrl: 1 }, cphase: { type: "P", nParams: 1, ctrl: 1 },
+  cu3: { type: "U3", nParams: 3, ctrl: 1 },
+};
 
-  // Normalize wheel zoom; keep cursor point stable
-  const onContainerWheel = (e: React.WheelEvent<HTMLDivElement>) => {
-    e.preventDefault();
-    const el = svgContainerRef.current;
-    if (!el) return;
-    const LINE_HEIGHT = 16;
-    const deltaY =
-      e.deltaMode === 1
-        ? e.deltaY * LINE_HEIGHT
-        : e.deltaMode === 2
-        ? e.deltaY * window.innerHeight
-        : e.deltaY;
-    const delta = -deltaY;
-    const factor = Math.exp(delta * 0.0012);
-    const newZ = Math.min(3, Math.max(0.4, canvasZoom * factor));
+// Statements we recognise but cannot represent, reported with a specific message.
+const QASM_UNSUPPORTED = new Set([
+  "gate", "opaque", "reset", "def", "defcal", "cal", "for", "while", "let", "const", "input", "output",
+  "delay", "box", "pow", "gphase", "else", "return", "break", "continue", "extern", "array",
+]);
 
-    const rect = el.getBoundingClientRect();
-    const cx = e.clientX - rect.left;
-    const cy = e.clientY - rect.top;
-    const ux = (el.scrollLeft + cx) / canvasZoom;
-    const uy = (el.scrollTop + cy) / canvasZoom;
+// Pack gates into moments in program order, each as early as the wires it spans (including
+// the ones its vertical line crosses) allow. Conditions wait for the last write of the bits
+// they read; measurements wait for every earlier read and write of the bit they set.
+// "barrier" starts a fresh moment for everything after it.
+function layoutGates(ops: (Gate | "barrier")[], nQubits: number): Moment[] {
+  const qFree = new Array(nQubits).fill(0);
+  const afterWrite = new Map<number, number>();
+  const afterRead = new Map<number, number>();
+  const moments: Moment[] = [];
+  let floor = 0;
+  for (const op of ops) {
+    if (op === "barrier") {
+      floor = moments.length;
+      continue;
+    }
+    const qs = gateQubits(op);
+    const lo = Math.min(...qs), hi = Math.max(...qs);
+    const reads = op.condition?.bits ?? [];
+    const writes = op.type === "MEASURE" ? [measuredBit(op)] : [];
+    let t = floor;
+    for (let q = lo; q <= hi; q++) t = Math.max(t, qFree[q]);
+    for (const b of reads) t = Math.max(t, afterWrite.get(b) ?? 0);
+    for (const b of writes) t = Math.max(t, afterWrite.get(b) ?? 0, afterRead.get(b) ?? 0);
+    while (moments.length <= t) moments.push({ t: moments.length, gates: [] });
+    moments[t].gates.push(op);
+    for (let q = lo; q <= hi; q++) qFree[q] = t + 1;
+    for (const b of reads) afterRead.set(b, Math.max(afterRead.get(b) ?? 0, t + 1));
+    for (const b of writes) afterWrite.set(b, t + 1);
+  }
+  return moments;
+}
 
-    setCanvasZoom(+newZ.toFixed(2));
-    requestAnimationFrame(() => {
-      el.scrollLeft = ux * newZ - cx;
-      el.scrollTop = uy * newZ - cy;
-    });
+/**
+ * Parse an OpenQASM 2.0 or 3.0 program (qelib1.inc / stdgates.inc gates, registers,
+ * measurement, barriers, `if` conditions and ctrl/negctrl/inv modifiers) into a Circuit,
+ * laying gates out into moments. Anything else throws a QasmError with its position.
+ */
+function parseQasm(src: string): Circuit {
+  const toks = tokenizeQasm(src);
+  let i = 0;
+  const last = toks[toks.length - 1];
+  const eof = { line: last ? last.line : 1, col: last ? last.col + last.text.length : 1 };
+  const failAt = (tok: QasmToken | undefined, msg: string): never => {
+    throw new QasmError(msg, tok?.line ?? eof.line, tok?.col ?? eof.col);
   };
-
-  // Simple middle-mouse / space panning (optional – space flag kept simple)
-  const spaceDownRef = useRef(false);
-  useEffect(() => {
-    const onKeyDown = (e: KeyboardEvent) => {
-      if (e.code === "Space") spaceDownRef.current = true;
-    };
-    const onKeyUp = (e: KeyboardEvent) => {
-      if (e.code === "Space") spaceDownRef.current = false;
-    };
-    window.addEventListener("keydown", onKeyDown);
-    window.addEventListener("keyup", onKeyUp);
-    return () => {
-      window.removeEventListener("keydown", onKeyDown);
-      window.removeEventListener("keyup", onKeyUp);
-    };
-  }, []);
-  const panStartRef = useRef<{ x: number; y: number; sl: number; st: number } | null>(null);
-  const beginPanScroll = (clientX: number, clientY: number) => {
-    const c = svgContainerRef.current;
-    if (!c) return;
-    panStartRef.current = { x: clientX, y: clientY, sl: c.scrollLeft, st: c.scrollTop };
-    c.classList.add("panning");
+  const peek = (k = 0) => toks[i + k];
+  const next = () => toks[i++] ?? failAt(undefined, "Unexpected end of program");
+  const expect = (text: string) => {
+    const tok = next();
+    if (tok.text !== text) failAt(tok, `Expected '${text}' but found '${tok.text}'`);
+    return tok;
   };
-  const movePanScroll = (clientX: number, clientY: number) => {
-    const c = svgContainerRef.current;
-    if (!c || !panStartRef.current) return;
-    const dx = clientX - panStartRef.current.x;
-    const dy = clientY - panStartRef.current.y;
-    c.scrollLeft = panStartRef.current.sl - dx;
-    c.scrollTop = panStartRef.current.st - dy;
+  const expectInt = () => {
+    const tok = next();
+    if (tok.kind !== "num" || !/^\d+$/.test(tok.text)) failAt(tok, `Expected an integer but found '${tok.text}'`);
+    return parseInt(tok.text);
   };
-  const endPanScroll = () => {
-    const c = svgContainerRef.current;
-    if (!c) return;
-    panStartRef.current = null;
-    c.classList.remove("panning");
+  const expectId = () => {
+    const tok = next();
+    if (tok.kind !== "id") failAt(tok, `Expected a name but found '${tok.text}'`);
+    return tok;
   };
 
-  const { probs, counts } = useMemo(() => {
-    const { probs } = simulateCircuit(circuit);
-    const counts = sampleCounts(probs, shots);
-    return { probs, counts };
-  }, [circuit, shots]);
+  const qregs = new Map<string, { offset: number; size: number }>();
+  const cregs = new Map<string, { offset: number; size: number }>();
+  let nQubits = 0, nClbits = 0;
+  const ops: (Gate | "barrier")[] = [];
 
-  /* -------- Circuit editing helpers -------- */
-  const addMoment = () => {
-    setCircuit((c) => ({ ...c, moments: [...c.moments, { t: c.moments.length, gates: [] }] }));
+  const declare = (regs: typeof qregs, nameTok: QasmToken, size: number, quantum: boolean) => {
+    if (qregs.has(nameTok.text) || cregs.has(nameTok.text)) failAt(nameTok, `'${nameTok.text}' is already declared`);
+    if (size < 1) failAt(nameTok, "Registers need at least one bit");
+    regs.set(nameTok.text, { offset: quantum ? nQubits : nClbits, size });
+    if (quantum) nQubits += size;
+    else nClbits += size;
+    if (nQubits > MAX_QUBITS) failAt(nameTok, `The designer supports at most ${MAX_QUBITS} qubits`);
   };
 
-  const ensureMoment = (t: number) => {
-    setCircuit((c) => {
-      if (t < c.moments.length) return c;
-      const ms = [...c.moments];
-      while (ms.length <= t) ms.push({ t: ms.length, gates: [] });
-      return { ...c, moments: ms };
-    });
+  // `name` or `name[i]`: the flat indices it refers to
+  const operand = (regs: typeof qregs, what: string): { tok: QasmToken; idx: number[] } => {
+    const tok = expectId();
+    const reg = regs.get(tok.text);
+    if (!reg) failAt(tok, `Unknown ${what} register '${tok.text}'`);
+    if (peek()?.text === "[") {
+      next();
+      const k = expectInt();
+      expect("]");
+      if (k >= reg!.size) failAt(tok, `Index ${k} is out of range for ${tok.text}[${reg!.size}]`);
+      return { tok, idx: [reg!.offset + k] };
+    }
+    return { tok, idx: Array.from({ length: reg!.size }, (_, k) => reg!.offset + k) };
   };
 
-  const addGate = (type: GateType, q0: number, t: number, q1?: number) => {
-    ensureMoment(t);
-    setCircuit((c) => {
-      const ms = c.moments.map((m) => ({ ...m, gates: [...m.gates] }));
-      const gate: Gate = {
-        id: uid(),
-        type,
-        targets: type === "CX" ? [q0, q1 ?? Math.min(q0 + 1, c.nQubits - 1)] : [q0],
-      };
-      ms[t].gates.push(gate);
-      return { ...c, moments: ms };
-    });
+  // Expand register arguments: `h q;` applies to every qubit, `cx a, b;` pairs registers up.
+  const broadcast = (args: { tok: QasmToken; idx: number[] }[]): number[][] => {
+    const n = Math.max(...args.map((a) => a.idx.length));
+    for (const a of args) {
+      if (a.idx.length !== 1 && a.idx.length !== n) failAt(a.tok, "Register arguments have different sizes");
+    }
+    return Array.from({ length: n }, (_, k) => args.map((a) => (a.idx.length === 1 ? a.idx[0] : a.idx[k])));
   };
 
-  const removeLast = () => {
-    setCircuit((c) => {
-      const ms = [...c.moments];
-      if (ms.length === 0) return c;
-      const last = ms[ms.length - 1];
-      if (last.gates.length > 0) last.gates.pop();
-      else ms.pop();
-      return { ...c, moments: ms };
-    });
+  const params = (): { tok: QasmToken; value: number }[] => {
+    const out: { tok: QasmToken; value: number }[] = [];
+    expect("(");
+    if (peek()?.text === ")") { next(); return out; }
+    for (;;) {
+      const start = peek();
+      const parts: string[] = [];
+      let depth = 0;
+      while (depth > 0 || (peek()?.text !== "," && peek()?.text !== ")")) {
+        const tok = next();
+        if (tok.text === "(") depth++;
+        if (tok.text === ")") depth--;
+        parts.push(tok.text);
+      }
+      try {
+        out.push({ tok: start, value: parseAngle(parts.join(" ")) });
+      } catch (err) {
+        failAt(start, `Invalid parameter '${parts.join("")}': ${(err as Error).message}`);
+      }
+      if (next().text === ")") return out;
+    }
   };
 
-  const setQubits = (n: number) => {
-    const nClamped = Math.max(1, Math.min(12, n));
-    setCircuit(() => emptyCircuit(nClamped));
-    setSelected(null);
-    setFitKey((k) => k + 1);
+  // `(c == 5)`, `(c[1] == 1)` or, in 3.0, several such tests joined by `&&`
+  const condition = (): Condition => {
+    expect("(");
+    const bits: number[] = [];
+    let value = 0;
+    for (;;) {
+      const regTok = expectId();
+      const reg = cregs.get(regTok.text);
+      if (!reg) failAt(regTok, `Unknown classical register '${regTok.text}'`);
+      let tested = Array.from({ length: reg!.size }, (_, k) => reg!.offset + k);
+      if (peek()?.text === "[") {
+        next();
+        const k = expectInt();
+        expect("]");
+        if (k >= reg!.size) failAt(regTok, `Index ${k} is out of range for ${regTok.text}[${reg!.size}]`);
+        tested = [reg!.offset + k];
+      }
+      expect("==");
+      const valTok = peek();
+      const v = expectInt();
+      if (v >= 1 << tested.length) failAt(valTok, `Value ${v} does not fit in ${tested.length} bit(s)`);
+      if (tested.some((b) => bits.includes(b))) failAt(regTok, "A classical bit is tested twice");
+      value |= v << bits.length;
+      bits.push(...tested);
+      if (peek()?.text !== "&&") break;
+      next();
+    }
+    expect(")");
+    return { bits, value };
   };
 
-  const deleteSelectedGate = () => {
-    if (!selected) return;
-    setCircuit((c) => {
-      const ms = c.moments.map((m) =>
-        m.t === selected.t ? { ...m, gates: m.gates.filter((g) => g.id !== selected.id) } : m
-      );
-      return { ...c, moments: ms };
-    });
-    setSelected(null);
+  const measure = (qArg: { tok: QasmToken; idx: number[] }, cArg: { tok: QasmToken; idx: number[] }): Gate[] => {
+    if (qArg.idx.length !== cArg.idx.length) failAt(cArg.tok, "measure needs registers of the same size");
+    return qArg.idx.map((q, k) => ({ id: uid(), type: "MEASURE" as const, targets: [q], cbit: cArg.idx[k] }));
   };
 
-  // keyboard delete
-  useEffect(() => {
-    const onKey = (e: KeyboardEvent) => {
-      if (!selected) return;
-      if (e.key === "Delete" || e.key === "Backspace") {
-        e.preventDefault();
-        deleteSelectedGate();
+  const gateCall = (): Gate[] => {
+    const controls: { negated: boolean; count: number }[] = [];
+    let invert = false;
+    // QASM 3 modifiers: ctrl @, ctrl(n) @, negctrl @, inv @
+    while (peek()?.kind === "id" && ["ctrl", "negctrl", "inv"].includes(peek().text) && peek(1)?.text !== "[") {
+      const mod = next();
+      let count = 1;
+      if (peek()?.text === "(") {
+        next();
+        count = expectInt();
+        expect(")");
       }
-    };
-    window.addEventListener("keydown", onKey);
-    return () => window.removeEventListener("keydown", onKey);
-  }, [selected]);
+      expect("@");
+      if (mod.text === "inv") invert = !invert;
+      else controls.push({ negated: mod.text === "negctrl", count });
+    }
+    const nameTok = expectId();
+    if (QASM_UNSUPPORTED.has(nameTok.text)) failAt(nameTok, `'${nameTok.text}' is not supported`);
+    const isId = nameTok.text === "id" || nameTok.text === "i";
+    const spec = QASM_GATES[nameTok.text];
+    if (!spec && !isId) failAt(nameTok, `Unknown or unsupported gate '${nameTok.text}'`);
+    const ps = peek()?.text === "(" ? params() : [];
+    const nParams = spec ? spec.nParams : 0;
+    if (ps.length !== nParams) failAt(nameTok, `${nameTok.text} takes ${nParams} parameter(s), got ${ps.length}`);
+    const args = [operand(qregs, "quantum")];
+    while (peek()?.text === ",") {
+      next();
+      args.push(operand(qregs, "quantum"));
+    }
+    expect(";");
+    if (isId) return [];
 
-  /* -------- Export helpers -------- */
-  const serializeSVG = () => {
+    const modCtl = controls.reduce((n, m) => n + m.count, 0);
+    const expected = modCtl + (spec!.ctrl ?? 0) + GATE_ARITY[spec!.type];
+    if (args.length !== expected) failAt(nameTok, `${nameTok.text} expects ${expected} qubit(s), got ${args.length}`);
+    const negFlags = controls.flatMap((m) => new Array(m.count).fill(m.negated) as boolean[]);
+    const values = ps.map((p) => p.value);
+
+    return broadcast(args).map((wires) => {
+      if (new Set(wires).size !== wires.length) failAt(nameTok, `${nameTok.text} uses the same qubit twice`);
+      const nCtl = modCtl + (spec!.ctrl ?? 0);
+      const gate: Gate = { id: uid(), type: spec!.type, targets: wires.slice(nCtl) };
+      const p = spec!.map ? spec!.map(values) : values;
+      if (GATE_PARAMS[gate.type]) gate.params = p;
+      if (nCtl) gate.controls = wires.slice(0, nCtl).map((q, k) => ({ qubit: q, negated: negFlags[k] ?? false }));
+      return invert ? inverseGate(gate) : gate;
+    });
+  };
+
+  // One statement; returns the gates it produces (declarations and barriers produce none).
+  const statement = (): Gate[] => {
+    const tok = peek();
+    switch (tok.text) {
+      case "OPENQASM": {
+        next();
+        const v = next();
+        if (!/^[23](\.\d+)?$/.test(v.text)) failAt(v, `Unsupported OpenQASM version '${v.text}'`);
+        expect(";");
+        return [];
+      }
+      case "include": {
+        next();
+        const file = next();
+        if (file.text !== '"qelib1.inc"' && file.text !== '"stdgates.inc"') {
+          failAt(file, `Only qelib1.inc and stdgates.inc can be included, not ${file.text}`);
+        }
+        expect(";");
+        return [];
+      }
+      case "qreg":
+      case "creg": {
+        next();
+        const name = expectId();
+        expect("[");
+        const size = expectInt();
+        expect("]");
+        expect(";");
+        declare(tok.text === "qreg" ? qregs : cregs, name, size, tok.text === "qreg");
+        return [];
+      }
+      case "qubit":
+      case "bit": {
+        next();
+        let size = 1;
+        if (peek()?.text === "[") {
+          next();
+          size = expectInt();
+          expect("]");
+        }
+        const name = expectId();
+        if (peek()?.text === "=") failAt(peek(), "Initialised declarations are not supported");
+        expect(";");
+        declare(tok.text === "qubit" ? qregs : cregs, name, size, tok.text === "qubit");
+        return [];
+      }
+      case "barrier": {
+        next();
+        while (peek() && peek().text !== ";") next();
+        expect(";");
+        ops.push("barrier");
+        return [];
+      }
+      case "measure": {
+        next();
+        const qArg = operand(qregs, "quantum");
+        if (peek()?.text !== "->") failAt(peek(), "Expected '->' and a classical target after measure");
+        next();
+        const cArg = operand(cregs, "classical");
+        expect(";");
+        return measure(qArg, cArg);
+      }
+      case "if": {
+        next();
+        const cond = condition();
+        const body: Gate[] = [];
+        if (peek()?.text === "{") {
+          next();
+          while (peek() && peek().text !== "}") body.push(...statement());
+          expect("}");
+        } else {
+          body.push(...statement());
+        }
+        for (const g of body) {
+          if (g.condition) failAt(tok, "Nested conditions are not supported");
+          g.condition = cond;
+        }
+        return body;
+      }
+      default: {
+        if (tok.kind !== "id") failAt(tok, `Unexpected '${tok.text}'`);
+        // QASM 3 assignment form: c[0] = measure q[0];
+        if (cregs.has(tok.text)) {
+          const cArg = operand(cregs, "classical");
+          expect("=");
+          const m = next();
+          if (m.text !== "measure") failAt(m, "Only measurement results can be assigned to bits");
+          const qArg = operand(qregs, "quantum");
+          expect(";");
+          return measure(qArg, cArg);
+        }
+        if (QASM_UNSUPPORTED.has(tok.text)) failAt(tok, `'${tok.text}' is not supported`);
+        return gateCall();
+      }
+    }
+  };
+
+  if (peek()?.text !== "OPENQASM") failAt(peek(), "Program must start with an OPENQASM version line");
+  while (i < toks.length) {
+    for (const g of statement()) ops.push(g);
+  }
+  if (nQubits === 0) failAt(undefined, "No qubits declared");
+  return { nQubits, nClbits, moments: layoutGates(ops, nQubits) };
+}
+
+/* ================= Python code generators (Qiskit, Cirq, PennyLane) ================= */
+type PythonTarget = "qiskit" | "cirq" | "pennylane";
+
+// Operator a gate applies once its built-in controls are pulled out (CX → X, CSWAP → SWAP, ...).
+const BASE_TYPE: Partial<Record<GateType, GateType>> = { CX: "X", CCX: "X", CZ: "Z", CSWAP: "SWAP" };
+
+// A gate as base operator + one flat control list (built-in controls first, all positive).
+function splitControls(g: Gate) {
+  const nImplicit = IMPLICIT_CONTROLS[g.type] ?? 0;
+  return {
+    base: BASE_TYPE[g.type] ?? g.type,
+    controls: [...g.targets.slice(0, nImplicit).map((q) => ({ qubit: q, negated: false })), ...(g.controls ?? [])],
+    targets: g.targets.slice(nImplicit),
+    params: g.params ?? DEFAULT_PARAMS[g.type] ?? [],
+  };
+}
+
+const pyAngle = (theta: number) => qasmAngle(theta).replace("pi", "np.pi");
+const pyComplex = (z: Complex) => `(${+z.re.toPrecision(12)}${z.im < 0 ? "-" : "+"}${Math.abs(+z.im.toPrecision(12))}j)`;
+const pyBool = (b: boolean) => (b ? "True" : "False");
+
+// Split a moment into groups with pairwise-disjoint wires (Cirq moments require it). A gate
+// goes after the last group touching any of its wires, so gates on a shared wire keep their order.
+function disjointGroups(gates: Gate[]): Gate[][] {
+  const groups: { used: Set<number>; gates: Gate[] }[] = [];
+  for (const g of gates) {
+    const qs = gateQubits(g);
+    let last = -1;
+    groups.forEach((x, k) => {
+      if (qs.some((q) => x.used.has(q))) last = k;
+    });
+    let grp = groups[last + 1];
+    if (!grp) groups.push((grp = { used: new Set(), gates: [] }));
+    qs.forEach((q) => grp!.used.add(q));
+    grp.gates.push(g);
+  }
+  return groups.map((x) => x.gates);
+}
+
+const hasMeasurement = (circ: Circuit) => circ.moments.some((m) => m.gates.some((g) => g.type === "MEASURE"));
+
+const QISKIT_METHOD: Record<Exclude<GateType, "MEASURE" | "CUSTOM">, string> = {
+  H: "h", X: "x", Y: "y", Z: "z", S: "s", SDG: "sdg", T: "t", TDG: "tdg",
+  RX: "rx", RY: "ry", RZ: "rz", P: "p", U3: "u",
+  CX: "cx", CZ: "cz", SWAP: "swap", CCX: "ccx", CSWAP: "cswap",
+};
+const QISKIT_CLASS: Partial<Record<GateType, string>> = {
+  H: "HGate", X: "XGate", Y: "YGate", Z: "ZGate", S: "SGate", SDG: "SdgGate", T: "TGate", TDG: "TdgGate",
+  RX: "RXGate", RY: "RYGate", RZ: "RZGate", P: "PhaseGate", U3: "UGate", SWAP: "SwapGate",
+};
+
+/** Qiskit QuantumCircuit; moments are separated by barriers, measurements keep their clbit. */
+function toQiskit(circ: Circuit, shots: number): string {
+  circ = lowerForExport(circ);
+  const classes = new Set<string>();
+  const body: string[] = [];
+  circ.moments.forEach((m, t) => {
+    if (t > 0 && m.gates.length) body.push("qc.barrier()");
+    for (const g of m.gates) {
+      if (g.type === "CUSTOM") throw new Error("Custom gates are inlined before export");
+      let line: string;
+      if (g.type === "MEASURE") {
+        line = `qc.measure(${g.targets[0]}, ${measuredBit(g)})`;
+      } else if (!g.controls?.length) {
+        const p = g.params ?? DEFAULT_PARAMS[g.type] ?? [];
+        line = `qc.${QISKIT_METHOD[g.type]}(${[...p.map(pyAngle), ...g.targets].join(", ")})`;
+      } else {
+        const { base, controls, targets, params } = splitControls(g);
+        const cls = QISKIT_CLASS[base]!;
+        classes.add(cls);
+        // ctrl_state bit k is the required value of the k-th control
+        const state = controls.reduce((v, ctl, k) => (ctl.negated ? v : v | (1 << k)), 0);
+        const qargs = [...controls.map((ctl) => ctl.qubit), ...targets].join(", ");
+        line = `qc.append(${cls}(${params.map(pyAngle).join(", ")}).control(${controls.length}, ctrl_state=${state}), [${qargs}])`;
+      }
+      const cond = g.condition;
+      if (cond) {
+        const whole = cond.bits.length === circ.nClbits && cond.bits.every((b, k) => b === k);
+        const target = whole ? "cr" : cond.bits.length === 1 ? `cr[${cond.bits[0]}]` : null;
+        if (!target) throw new Error("Conditions on a subset of several bits cannot be exported");
+        body.push(`with qc.if_test((${target}, ${cond.value})):`, `    ${line}`);
+      } else {
+        body.push(line);
+      }
+    }
+  });
+
+  const lines = [
+    "import numpy as np",
+    "from qiskit import ClassicalRegister, QuantumCircuit, QuantumRegister",
+    ...(classes.size ? [`from qiskit.circuit.library import ${[...classes].sort().join(", ")}`] : []),
+    "",
+    `SHOTS = ${shots}`,
+    "",
+    `qr = QuantumRegister(${circ.nQubits}, "q")`,
+    `cr = ClassicalRegister(${Math.max(1, circ.nClbits)}, "c")`,
+    "qc = QuantumCircuit(qr, cr)",
+    "",
+    ...body,
+    "",
+    'if __name__ == "__main__":',
+    "    print(qc.draw())",
+  ];
+  if (hasMeasurement(circ)) {
+    lines.push(
+      "    from qiskit.primitives import StatevectorSampler",
+      "",
+      "    result = StatevectorSampler().run([qc], shots=SHOTS).result()",
+      "    print(result[0].data.c.get_counts())"
+    );
+  }
+  return lines.join("\n") + "\n";
+}
+
+const CIRQ_OP: Record<Exclude<GateType, "MEASURE" | "CUSTOM">, string> = {
+  H: "cirq.H", X: "cirq.X", Y: "cirq.Y", Z: "cirq.Z", S: "cirq.S", SDG: "(cirq.S**-1)", T: "cirq.T", TDG: "(cirq.T**-1)",
+  RX: "cirq.rx", RY: "cirq.ry", RZ: "cirq.rz", P: "cirq.ZPowGate", U3: "cirq.MatrixGate",
+  CX: "cirq.CNOT", CZ: "cirq.CZ", SWAP: "cirq.SWAP", CCX: "cirq.CCX", CSWAP: "cirq.CSWAP",
+};
+
+function cirqGate(type: GateType, p: number[]): string {
+  switch (type) {
+    case "RX":
+    case "RY":
+    case "RZ":
+      return `${CIRQ_OP[type]}(${pyAngle(p[0])})`;
+    case "P":
+      return `cirq.ZPowGate(exponent=${pyAngle(p[0])} / np.pi)`;
+    case "U3": {
+      const U = gateMatrix("U3", p)!;
+      return `cirq.MatrixGate(np.array([[${pyComplex(U[0])}, ${pyComplex(U[1])}], [${pyComplex(U[2])}, ${pyComplex(U[3])}]]))`;
+    }
+    default:
+      return CIRQ_OP[type as Exclude<GateType, "MEASURE" | "CUSTOM">];
+  }
+}
+
+/** Cirq Circuit built from one cirq.Moment per designer moment; bit b is measurement key "c{b}". */
+function toCirq(circ: Circuit, shots: number): string {
+  circ = lowerForExport(circ);
+  let usesSympy = false;
+  const q = (i: number) => `q[${i}]`;
+  const opFor = (g: Gate): string => {
+    let op: string;
+    if (g.type === "MEASURE") {
+      op = `cirq.measure(${q(g.targets[0])}, key="c${measuredBit(g)}")`;
+    } else if (!g.controls?.length) {
+      op = `${cirqGate(g.type, g.params ?? DEFAULT_PARAMS[g.type] ?? [])}(${g.targets.map(q).join(", ")})`;
+    } else {
+      const { base, controls, targets, params } = splitControls(g);
+      const values = controls.map((ctl) => (ctl.negated ? 0 : 1)).join(", ");
+      const wires = [...controls.map((ctl) => ctl.qubit), ...targets].map(q).join(", ");
+      op = `${cirqGate(base, params)}.controlled(num_controls=${controls.length}, control_values=[${values}]).on(${wires})`;
+    }
+    const cond = g.condition;
+    if (!cond) return op;
+    if (cond.bits.length === 1 && cond.value === 1) return `${op}.with_classical_controls("c${cond.bits[0]}")`;
+    usesSympy = true;
+    const sum = cond.bits.map((b, k) => (k ? `${1 << k} * sympy.Symbol("c${b}")` : `sympy.Symbol("c${b}")`)).join(" + ");
+    return `${op}.with_classical_controls(sympy.Eq(${sum}, ${cond.value}))`;
+  };
+
+  const moments: string[] = [];
+  for (const m of circ.moments) {
+    for (const group of disjointGroups(m.gates)) {
+      moments.push(`    cirq.Moment([${group.map(opFor).join(", ")}]),`);
+    }
+  }
+  const lines = [
+    "import cirq",
+    "import numpy as np",
+    ...(usesSympy ? ["import sympy"] : []),
+    "",
+    `SHOTS = ${shots}`,
+    "",
+    `q = cirq.LineQubit.range(${circ.nQubits})`,
+    "circuit = cirq.Circuit([",
+    ...moments,
+    "])",
+    "",
+    'if __name__ == "__main__":',
+    "    print(circuit)",
+  ];
+  if (hasMeasurement(circ)) {
+    lines.push("    result = cirq.Simulator().run(circuit, repetitions=SHOTS)", "    print(result)");
+  }
+  return lines.join("\n") + "\n";
+}
+
+const PENNYLANE_OP: Record<Exclude<GateType, "MEASURE" | "CUSTOM">, string> = {
+  H: "qml.Hadamard", X: "qml.PauliX", Y: "qml.PauliY", Z: "qml.PauliZ",
+  S: "qml.S", SDG: "qml.adjoint(qml.S)", T: "qml.T", TDG: "qml.adjoint(qml.T)",
+  RX: "qml.RX", RY: "qml.RY", RZ: "qml.RZ", P: "qml.PhaseShift", U3: "qml.U3",
+  CX: "qml.CNOT", CZ: "qml.CZ", SWAP: "qml.SWAP", CCX: "qml.Toffoli", CSWAP: "qml.CSWAP",
+};
+
+/**
+ * PennyLane QNode. Moments are separated by qml.Barrier; measurements become mid-circuit
+ * qml.measure values stored as c[b], and the QNode returns counts over them (c[n-1]…c[0]).
+ */
+function toPennyLane(circ: Circuit, shots: number): string {
+  circ = lowerForExport(circ);
+  const body: string[] = [];
+  const written = new Set<number>();
+  const allWires = `wires=range(${circ.nQubits})`;
+  circ.moments.forEach((m, t) => {
+    if (t > 0 && m.gates.length) body.push(`    qml.Barrier(${allWires})`);
+    for (const g of m.gates) {
+      const cond = g.condition;
+      const condExpr =
+        cond &&
+        `${cond.bits.map((b, k) => (k ? `${1 << k} * c[${b}]` : `c[${b}]`)).join(" + ")} == ${cond.value}`;
+      if (g.type === "MEASURE") {
+        if (cond) throw new Error("Conditional measurements cannot be exported to PennyLane");
+        written.add(measuredBit(g));
+        body.push(`    c[${measuredBit(g)}] = qml.measure(${g.targets[0]})`);
+        continue;
+      }
+      if (g.type === "CUSTOM") throw new Error("Custom gates are inlined before export");
+      let fn: string;
+      let args: string;
+      if (!g.controls?.length) {
+        const p = g.params ?? DEFAULT_PARAMS[g.type] ?? [];
+        fn = PENNYLANE_OP[g.type];
+        args = [...p.map(pyAngle), `wires=[${g.targets.join(", ")}]`].join(", ");
+      } else {
+        const { base, controls, targets, params } = splitControls(g);
+        const ctl = controls.map((x) => x.qubit).join(", ");
+        const values = controls.map((x) => pyBool(!x.negated)).join(", ");
+        fn = `qml.ctrl(${PENNYLANE_OP[base as Exclude<GateType, "MEASURE" | "CUSTOM">]}, control=[${ctl}], control_values=[${values}])`;
+        args = [...params.map(pyAngle), `wires=[${targets.join(", ")}]`].join(", ");
+      }
+      body.push(condExpr ? `    qml.cond(${condExpr}, ${fn})(${args})` : `    ${fn}(${args})`);
+    }
+  });
+
+  const bits = [...written].sort((a, b) => b - a);
+  const ret = bits.length
+    ? `    return qml.counts(op=[${bits.map((b) => `c[${b}]`).join(", ")}])`
+    : `    return qml.counts(wires=[${Array.from({ length: circ.nQubits }, (_, q) => circ.nQubits - 1 - q).join(", ")}])`;
+  return [
+    "import pennylane as qml",
+    "from pennylane import numpy as np",
+    "",
+    `SHOTS = ${shots}`,
+    "",
+    `dev = qml.device("default.qubit", wires=${circ.nQubits}, shots=SHOTS)`,
+    "",
+    "",
+    "@qml.qnode(dev)",
+    "def circuit():",
+    `    c = {b: 0 for b in range(${circ.nClbits})}  # classical bit -> mid-circuit measurement value`,
+    ...body,
+    ret,
+    "",
+    "",
+    'if __name__ == "__main__":',
+    "    print(circuit())",
+  ].join("\n") + "\n";
+}
+
+const PYTHON_EXPORTERS: Record<PythonTarget, { label: string; file: string; generate: typeof toQiskit }> = {
+  qiskit: { label: "Qiskit", file: "circuit_qiskit.py", generate: toQiskit },
+  cirq: { label: "Cirq", file: "circuit_cirq.py", generate: toCirq },
+  pennylane: { label: "PennyLane", file: "circuit_pennylane.py", generate: toPennyLane },
+};
+
+/* ================= Unitary matrix (whole circuit or a range of moments) ================= */
+const UNITARY_MAX_QUBITS = 8;
+
+/**
+ * Unitary of moments from..to (inclusive), built column by column: column j is the
+ * range applied to the basis state |j⟩, so U[j][i] is the entry ⟨i|U|j⟩. Measurements
+ * and classically-controlled gates have no unitary and are reported as errors.
+ */
+function circuitUnitary(circ: Circuit, from: number, to: number): Complex[][] {
+  if (circ.nQubits > UNITARY_MAX_QUBITS) {
+    throw new Error(`The unitary view is limited to ${UNITARY_MAX_QUBITS} qubits`);
+  }
+  const moments = inlineComposites(circ).moments.slice(from, to + 1);
+  const gates = moments.flatMap((m) => m.gates.map((g) => ({ t: m.t, g })));
+  for (const { t, g } of gates) {
+    if (g.type === "MEASURE") throw new Error(`t${t}: a measurement has no unitary; pick a range before it`);
+    if (g.condition) throw new Error(`t${t}: classically-controlled ${gateName(g.type)} has no unitary`);
+  }
+  const N = 1 << circ.nQubits;
+  return Array.from({ length: N }, (_, j) => {
+    const st = new Float64Array(2 * N);
+    st[2 * j] = 1;
+    for (const { g } of gates) applyGate(st, g);
+    return Array.from({ length: N }, (_, i) => amp(st, i));
+  });
+}
+
+// Complex number in decimal form ("0.7071-0.7071i", "-1j"); tiny parts are dropped.
+function formatComplex(z: Complex, digits: number, unit: "i" | "j" = "i"): string {
+  const round = (x: number) => (Math.abs(x) < 0.5 * 10 ** -digits ? 0 : +x.toFixed(digits));
+  const re = round(z.re), im = round(z.im);
+  if (!im) return String(re);
+  if (!re) return `${im}${unit}`;
+  return `${re}${im < 0 ? "-" : "+"}${Math.abs(im)}${unit}`;
+}
+
+/**
+ * Exact form of entries e^(iφ)/(√2)^k with φ a small multiple of π, as produced by H,
+ * S, T, QFT and friends: "1/√2", "-i/2", "e^(iπ/4)/2√2". Null for anything else.
+ */
+function exactEntry(z: Complex): { text: string; latex: string } | null {
+  const r = Math.hypot(z.re, z.im);
+  if (r < 1e-9) return { text: "0", latex: "0" };
+  const k = Math.round(-2 * Math.log2(r));
+  if (k < 0 || k > 2 * UNITARY_MAX_QUBITS || Math.abs(r - 2 ** (-k / 2)) > 1e-9) return null;
+
+  const phi = Math.atan2(z.im, z.re);
+  const quarter = (2 * phi) / Math.PI;
+  let sign = "", num = { text: "1", latex: "1" };
+  if (Math.abs(quarter - Math.round(quarter)) < 1e-9) {
+    const q = ((Math.round(quarter) % 4) + 4) % 4; // 1, i, -1, -i
+    sign = q >= 2 ? "-" : "";
+    if (q % 2) num = { text: "i", latex: "i" };
+  } else {
+    const angle = formatAngle(Math.abs(phi));
+    if (!angle.includes("π")) return null;
+    const s = phi < 0 ? "-" : "";
+    num = { text: `e^(${s}i${angle})`, latex: `e^{${s}i${angle.replace("π", "\\pi ")}}` };
+  }
+
+  if (k === 0) return { text: sign + num.text, latex: sign + num.latex };
+  const twos = 2 ** Math.floor(k / 2);
+  const den = {
+    text: `${twos > 1 ? twos : ""}${k % 2 ? "√2" : ""}`,
+    latex: `${twos > 1 ? twos : ""}${k % 2 ? "\\sqrt{2}" : ""}`,
+  };
+  return { text: `${sign}${num.text}/${den.text}`, latex: `${sign}\\frac{${num.latex}}{${den.latex}}` };
+}
+
+type UnitaryFormat = "numpy" | "latex" | "csv";
+
+// Rows of the matrix (U is stored by columns)
+const unitaryRows = (U: Complex[][]) => U.map((_, i) => U.map((col) => col[i]));
+
+function unitaryToNumpy(U: Complex[][], title: string): string {
+  const rows = unitaryRows(U).map((row) => `    [${row.map((z) => formatComplex(z, 12, "j")).join(", ")}],`);
+  return [
+    "import numpy as np",
+    "",
+    `# ${title}`,
+    "# basis index bit k is qubit k (q0 least significant, as in Qiskit)",
+    "U = np.array([",
+    ...rows,
+    "], dtype=complex)",
+    "",
+  ].join("\n");
+}
+
+function unitaryToLatex(U: Complex[][]): string {
+  const rows = unitaryRows(U).map((row) => row.map((z) => exactEntry(z)?.latex ?? formatComplex(z, 4)).join(" & "));
+  return `\\begin{pmatrix}\n${rows.join(" \\\\\n")}\n\\end{pmatrix}\n`;
+}
+
+// One matrix row per line, entries as a+bi (the form spreadsheet COMPLEX functions read)
+const unitaryToCsv = (U: Complex[][]) =>
+  unitaryRows(U).map((row) => row.map((z) => formatComplex(z, 12)).join(",")).join("\n") + "\n";
+
+const UNITARY_FORMATS: Record<UnitaryFormat, { label: string; generate: (U: Complex[][], title: string) => string }> = {
+  numpy: { label: "NumPy", generate: unitaryToNumpy },
+  latex: { label: "LaTeX", generate: unitaryToLatex },
+  csv: { label: "CSV", generate: unitaryToCsv },
+};
+
+/* ================= Project files (versioned JSON) ================= */
+const PROJECT_FORMAT = "quantum-circuit-designer";
+const PROJECT_VERSION = 2;
+const DEFAULT_SEED = 1;
+const SEED_MAX = 2 ** 32 - 1; // seeds are 32-bit, see seededRandom
+
+// Everything a saved project restores; the theme is kept as a plain string to stay UI-agnostic.
+type Project = {
+  circuit: Circuit;
+  shots: number;
+  seed?: number;
+  theme?: string;
+  noise?: NoiseModel;
+  observables?: string[]; // Pauli sums in the Observables card, one per entry
+};
+
+// A document that failed to load; `path` points into the JSON (e.g. "circuit.moments[2].gates[0]").
+class ProjectError extends Error {
+  path: string;
+  constructor(path: string, message: string) {
+    super(path ? `${path}: ${message}` : message);
+    this.name = "ProjectError";
+    this.path = path;
+  }
+}
+
+function serializeProject(p: Project): string {
+  return JSON.stringify({ format: PROJECT_FORMAT, version: PROJECT_VERSION, ...p }, null, 2);
+}
+
+// Gate names older files (and hand-written ones) may use for today's GateType values.
+const GATE_ALIASES: Record<string, GateType> = {
+  CNOT: "CX", TOFFOLI: "CCX", FREDKIN: "CSWAP", SDAG: "SDG", TDAG: "TDG", U: "U3", PHASE: "P", M: "MEASURE",
+};
+
+type Json = Record<string, unknown>;
+const isObject = (v: unknown): v is Json => typeof v === "object" && v !== null && !Array.isArray(v);
+
+// MIGRATIONS[v] upgrades a version-v document to v + 1; add an entry whenever the format changes.
+const MIGRATIONS: Record<number, (doc: Json) => Json> = {
+  // v0: the bare Circuit object, as JSON.stringify(circuit) produced before project files existed
+  0: (doc) => ({ format: PROJECT_FORMAT, version: 1, circuit: doc, shots: 512 }),
+  // v2 added the seed, measurement bases, observables, angle symbols and custom gates; all
+  // optional, so a v1 document reads as is
+  1: (doc) => ({ ...doc, version: 2 }),
+};
+
+function migrateProject(doc: Json): Json {
+  const bare = doc.format === undefined && "moments" in doc;
+  if (!bare && doc.format !== PROJECT_FORMAT) {
+    throw new ProjectError("format", `not a ${PROJECT_FORMAT} project file`);
+  }
+  const declared = bare ? 0 : doc.version;
+  if (typeof declared !== "number" || !Number.isInteger(declared) || declared < 0) {
+    throw new ProjectError("version", "missing or invalid format version");
+  }
+  if (declared > PROJECT_VERSION) {
+    throw new ProjectError("version", `file is version ${declared}, this app reads up to ${PROJECT_VERSION}`);
+  }
+  for (let version = declared; version < PROJECT_VERSION; version++) doc = MIGRATIONS[version](doc);
+  return doc;
+}
+
+function expectInt(v: unknown, path: string, lo: number, hi: number): number {
+  if (typeof v !== "number" || !Number.isInteger(v)) throw new ProjectError(path, "expected an integer");
+  if (v < lo || v > hi) throw new ProjectError(path, `${v} is out of range ${lo}–${hi}`);
+  return v;
+}
+
+function expectArray(v: unknown, path: string): unknown[] {
+  if (!Array.isArray(v)) throw new ProjectError(path, "expected an array");
+  return v;
+}
+
+function readGate(raw: unknown, path: string, circ: Circuit, ids: Set<string>): Gate {
+  if (!isObject(raw)) throw new ProjectError(path, "expected a gate object");
+  const name = String(raw.type ?? "").toUpperCase();
+  const type = name in GATE_ARITY ? (name as GateType) : GATE_ALIASES[name];
+  if (!type) throw new ProjectError(`${path}.type`, `unknown gate type "${raw.type}"`);
+  const def = type === "CUSTOM" ? circ.definitions?.find((d) => d.name === raw.name) : undefined;
+  if (type === "CUSTOM" && !def) throw new ProjectError(`${path}.name`, `unknown custom gate "${raw.name}"`);
+  const arity = def ? def.nQubits : GATE_ARITY[type];
+
+  const targets = expectArray(raw.targets, `${path}.targets`).map((q, k) =>
+    expectInt(q, `${path}.targets[${k}]`, 0, circ.nQubits - 1)
+  );
+  if (targets.length !== arity) {
+    throw new ProjectError(`${path}.targets`, `${def?.name ?? type} acts on ${arity} qubit(s), got ${targets.length}`);
+  }
+  let id = typeof raw.id === "string" && raw.id ? raw.id : uid();
+  if (ids.has(id)) id = uid();
+  ids.add(id);
+  const gate: Gate = { id, type, targets };
+  if (def) {
+    gate.name = def.name;
+    if (raw.dagger) gate.dagger = true;
+  }
+
+  const names = GATE_PARAMS[type];
+  if (names) {
+    const params = raw.params === undefined ? DEFAULT_PARAMS[type]! : expectArray(raw.params, `${path}.params`);
+    if (params.length !== names.length) {
+      throw new ProjectError(`${path}.params`, `${type} takes ${names.length} parameter(s), got ${params.length}`);
+    }
+    gate.params = params.map((p, k) => {
+      if (typeof p !== "number" || !Number.isFinite(p)) throw new ProjectError(`${path}.params[${k}]`, "expected a number");
+      return p;
+    });
+    if (raw.symbols !== undefined) {
+      const symbols = expectArray(raw.symbols, `${path}.symbols`).map((name, k) => {
+        if (name === null || name === "") return null;
+        if (typeof name !== "string" || !SYMBOL_RE.test(name)) {
+          throw new ProjectError(`${path}.symbols[${k}]`, "expected a symbol name or null");
+        }
+        return name;
+      });
+      if (symbols.length > names.length) {
+        throw new ProjectError(`${path}.symbols`, `${type} takes ${names.length} parameter(s), got ${symbols.length} symbols`);
+      }
+      if (symbols.some(Boolean)) gate.symbols = symbols;
+    }
+  }
+  if (raw.controls !== undefined && type !== "MEASURE") {
+    const controls = expectArray(raw.controls, `${path}.controls`).map((ctl, k) => {
+      if (!isObject(ctl)) throw new ProjectError(`${path}.controls[${k}]`, "expected {qubit, negated}");
+      return { qubit: expectInt(ctl.qubit, `${path}.controls[${k}].qubit`, 0, circ.nQubits - 1), negated: !!ctl.negated };
+    });
+    if (controls.length) gate.controls = controls;
+  }
+  const wires = gateQubits(gate);
+  if (new Set(wires).size !== wires.length) throw new ProjectError(path, "a gate cannot use the same qubit twice");
+
+  if (type === "MEASURE" && raw.cbit !== undefined) gate.cbit = expectInt(raw.cbit, `${path}.cbit`, 0, circ.nClbits - 1);
+  if (type === "MEASURE" && raw.basis !== undefined) {
+    if (raw.basis !== "X" && raw.basis !== "Y" && raw.basis !== "Z") throw new ProjectError(`${path}.basis`, "expected X, Y or Z");
+    if (raw.basis !== "Z") gate.basis = raw.basis;
+  }
+  if (raw.condition !== undefined) {
+    const cond = raw.condition;
+    if (!isObject(cond)) throw new ProjectError(`${path}.condition`, "expected {bits, value}");
+    const bits = expectArray(cond.bits, `${path}.condition.bits`).map((b, k) =>
+      expectInt(b, `${path}.condition.bits[${k}]`, 0, circ.nClbits - 1)
+    );
+    if (!bits.length) throw new ProjectError(`${path}.condition.bits`, "needs at least one classical bit");
+    gate.condition = { bits, value: expectInt(cond.value, `${path}.condition.value`, 0, (1 << bits.length) - 1) };
+  }
+  return gate;
+}
+
+const DEFINITION_NAME_RE = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Custom gate definitions, in order: a body may use the definitions before it, which rules
+ * out recursion. Bodies are unitary, so measurements and classical conditions are refused.
+ */
+function readDefinitions(raw: unknown, path: string): GateDefinition[] {
+  const definitions: GateDefinition[] = [];
+  expectArray(raw, path).forEach((d, i) => {
+    const dp = `${path}[${i}]`;
+    if (!isObject(d)) throw new ProjectError(dp, "expected a gate definition");
+    const name = d.name;
+    if (typeof name !== "string" || !DEFINITION_NAME_RE.test(name)) throw new ProjectError(`${dp}.name`, "expected an identifier");
+    const upper = name.toUpperCase();
+    if (upper in GATE_ARITY || upper in GATE_ALIASES) throw new ProjectError(`${dp}.name`, `"${name}" is a built-in gate`);
+    if (definitions.some((other) => other.name === name)) throw new ProjectError(`${dp}.name`, `"${name}" is defined twice`);
+    const nQubits = expectInt(d.nQubits, `${dp}.nQubits`, 1, MAX_QUBITS);
+    const scratch: Circuit = { nQubits, nClbits: 0, moments: [], definitions };
+    const ids = new Set<string>();
+    const moments = expectArray(d.moments, `${dp}.moments`).map((m, t) =>
+      expectArray(m, `${dp}.moments[${t}]`).map((g, k) => {
+        const gp = `${dp}.moments[${t}][${k}]`;
+        if (isObject(g) && g.condition !== undefined) throw new ProjectError(`${gp}.condition`, "custom gates cannot be classically controlled inside");
+        const gate = readGate(g, gp, scratch, ids);
+        if (gate.type === "MEASURE") throw new ProjectError(gp, "custom gates cannot contain measurements");
+        delete gate.symbols; // symbols belong to the circuit; a definition keeps plain angles
+        return gate;
+      })
+    );
+    definitions.push({ name, nQubits, moments });
+  });
+  return definitions;
+}
+
+function readCircuit(raw: unknown, path: string): Circuit {
+  if (!isObject(raw)) throw new ProjectError(path, "expected a circuit object");
+  const nQubits = expectInt(raw.nQubits, `${path}.nQubits`, 1, MAX_QUBITS);
+  // files from before classical registers existed measure qubit q into bit q
+  const nClbits = raw.nClbits === undefined ? nQubits : expectInt(raw.nClbits, `${path}.nClbits`, 0, MAX_QUBITS);
+  const circ: Circuit = { nQubits, nClbits, moments: [] };
+  if (raw.labels !== undefined) {
+    const labels = expectArray(raw.labels, `${path}.labels`).map((l) => (typeof l === "string" ? l : ""));
+    if (labels.length > nQubits) throw new ProjectError(`${path}.labels`, `more labels than qubits (${nQubits})`);
+    if (labels.some(Boolean)) circ.labels = labels;
+  }
+  if (raw.definitions !== undefined) {
+    const definitions = readDefinitions(raw.definitions, `${path}.definitions`);
+    if (definitions.length) circ.definitions = definitions;
+  }
+  const ids = new Set<string>();
+  circ.moments = expectArray(raw.moments, `${path}.moments`).map((m, t) => {
+    const mp = `${path}.moments[${t}]`;
+    if (!isObject(m)) throw new ProjectError(mp, "expected a moment object");
+    return { t, gates: expectArray(m.gates, `${mp}.gates`).map((g, k) => readGate(g, `${mp}.gates[${k}]`, circ, ids)) };
+  });
+  // angles sharing a symbol take the value of its first use
+  return assignSymbols(circ, Object.fromEntries(circuitSymbols(circ)));
+}
+
+function readRates(raw: unknown, path: string): NoiseRates {
+  if (!isObject(raw)) throw new ProjectError(path, "expected noise rates");
+  const rate = (key: keyof NoiseRates) => {
+    const v = raw[key] ?? 0;
+    if (typeof v !== "number" || !(v >= 0 && v <= 1)) throw new ProjectError(`${path}.${key}`, "expected a probability in [0, 1]");
+    return v;
+  };
+  return { depolarizing: rate("depolarizing"), amplitudeDamping: rate("amplitudeDamping"), phaseDamping: rate("phaseDamping") };
+}
+
+function readNoise(raw: unknown, path: string): NoiseModel {
+  if (!isObject(raw)) throw new ProjectError(path, "expected a noise model");
+  const gate: NoiseModel["gate"] = {};
+  if (raw.gate !== undefined) {
+    if (!isObject(raw.gate)) throw new ProjectError(`${path}.gate`, "expected rates keyed by gate type");
+    for (const [type, rates] of Object.entries(raw.gate)) {
+      if (!(type in GATE_ARITY) || type === "CUSTOM") throw new ProjectError(`${path}.gate`, `unknown gate type "${type}"`);
+      gate[type as GateType] = readRates(rates, `${path}.gate.${type}`);
+    }
+  }
+  const qubit = expectArray(raw.qubit ?? [], `${path}.qubit`).map((r, q) => readRates(r, `${path}.qubit[${q}]`));
+  const readout = expectArray(raw.readout ?? [], `${path}.readout`).map((p, q) => {
+    if (typeof p !== "number" || !(p >= 0 && p <= 1)) throw new ProjectError(`${path}.readout[${q}]`, "expected a probability in [0, 1]");
+    return p;
+  });
+  return { gate, qubit, readout };
+}
+
+/** Parse, migrate and validate a project file; throws ProjectError naming the offending field. */
+function parseProject(text: string): Project {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(text);
+  } catch (err) {
+    throw new ProjectError("", `not valid JSON (${(err as Error).message})`);
+  }
+  if (!isObject(doc)) throw new ProjectError("", "expected a JSON object");
+  doc = migrateProject(doc);
+  const d = doc as Json;
+  const project: Project = {
+    circuit: readCircuit(d.circuit, "circuit"),
+    shots: d.shots === undefined ? 512 : expectInt(d.shots, "shots", 1, 100000),
+  };
+  if (d.seed !== undefined) project.seed = expectInt(d.seed, "seed", 0, SEED_MAX);
+  if (typeof d.theme === "string") project.theme = d.theme;
+  if (d.noise !== undefined) project.noise = readNoise(d.noise, "noise");
+  if (d.observables !== undefined) {
+    const obs = expectArray(d.observables, "observables");
+    if (obs.some((o) => typeof o !== "string")) throw new ProjectError("observables", "expected a list of strings");
+    project.observables = obs as string[];
+  }
+  return project;
+}
+
+/* ================= Autosave & recent projects (localStorage) ================= */
+// Index entry for a stored project; the document itself lives under projectKey(id).
+type ProjectMeta = { id: string; name: string; updated: number; thumbnail?: string };
+
+const INDEX_KEY = "projects";
+const CURRENT_KEY = "currentProject";
+const projectKey = (id: string) => `project:${id}`;
+const MAX_RECENT = 12;
+const AUTOSAVE_DELAY_MS = 800;
+
+function loadProjectIndex(): ProjectMeta[] {
+  try {
+    const list: unknown = JSON.parse(localStorage.getItem(INDEX_KEY) ?? "[]");
+    return Array.isArray(list) ? list.filter((m): m is ProjectMeta => isObject(m) && typeof m.id === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeProjectIndex(index: ProjectMeta[]) {
+  localStorage.setItem(INDEX_KEY, JSON.stringify(index));
+}
+
+/**
+ * Write a project and move it to the top of the index, dropping the oldest beyond MAX_RECENT.
+ * Throws when storage is full; the index and the other projects are then left as they were.
+ */
+function storeProject(meta: ProjectMeta, p: Project): ProjectMeta[] {
+  const previous = loadProjectIndex();
+  const index = [meta, ...previous.filter((m) => m.id !== meta.id)];
+  const evicted = index.splice(MAX_RECENT);
+  localStorage.setItem(projectKey(meta.id), serializeProject(p));
+  try {
+    writeProjectIndex(index);
+  } catch (err) {
+    // a new project the index cannot list would only take up space
+    if (!previous.some((m) => m.id === meta.id)) localStorage.removeItem(projectKey(meta.id));
+    throw err;
+  }
+  for (const old of evicted) localStorage.removeItem(projectKey(old.id));
+  return index;
+}
+
+function loadStoredProject(id: string): Project | null {
+  const text = localStorage.getItem(projectKey(id));
+  if (!text) return null;
+  try {
+    return parseProject(text);
+  } catch {
+    return null;
+  }
+}
+
+function deleteStoredProject(id: string): ProjectMeta[] {
+  localStorage.removeItem(projectKey(id));
+  const index = loadProjectIndex().filter((m) => m.id !== id);
+  writeProjectIndex(index);
+  return index;
+}
+
+// The project that was open when the page was last closed, if it still loads.
+function restoreLastProject(): { meta: ProjectMeta; project: Project } | null {
+  const id = localStorage.getItem(CURRENT_KEY);
+  const meta = id ? loadProjectIndex().find((m) => m.id === id) : undefined;
+  const project = meta && loadStoredProject(meta.id);
+  return meta && project ? { meta, project } : null;
+}
+
+const newProjectMeta = (name = "Untitled"): ProjectMeta => ({ id: uid(), name, updated: Date.now() });
+
+const svgThumbnail = (svg: string) => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+
+/* ==== Theme (light default, dark optional) ==== */
+const THEMES = {
+  light: {
+    bg: "#ffffff",
+    grid: "#e5e7eb",
+    wire: "#9ca3af",
+    node: "#6b7280",
+    text: "#1f2937",
+    label: "#6b7280",
+    select: "#14b8a6",
+    conflict: "#ef4444",
+    gates: {
+      hFill: "#ef4444",
+      hText: "#ffffff",
+      rotFill: "#8b5cf6",
+      rotText: "#ffffff",
+      pauliFill: "#f59e0b",
+      pauliText: "#ffffff",
+      phaseFill: "#10b981",
+      phaseText: "#ffffff",
+      xStroke: "#3b82f6",
+      cxControl: "#3b82f6",
+      measureStroke: "#6b7280",
+    },
+  },
+  dark: {
+    bg: "#0f172a",
+    grid: "#1e293b",
+    wire: "#64748b",
+    node: "#94a3b8",
+    text: "#f8fafc",
+    label: "#94a3b8",
+    select: "#22d3ee",
+    conflict: "#f87171",
+    gates: {
+      hFill: "#ef4444",
+      hText: "#ffffff",
+      rotFill: "#a78bfa",
+      rotText: "#0f172a",
+      pauliFill: "#fbbf24",
+      pauliText: "#0f172a",
+      phaseFill: "#34d399",
+      phaseText: "#0f172a",
+      xStroke: "#60a5fa",
+      cxControl: "#60a5fa",
+      measureStroke: "#cbd5e1",
+    },
+  },
+};
+type ThemeKey = keyof typeof THEMES;
+
+/* ================= Selection, block moves & clipboard ================= */
+type GateRef = { t: number; id: string };
+
+// `count` empty moments inserted before moment `at`; later gates shift right.
+function insertMoments(c: Circuit, at: number, count: number): Circuit {
+  const ms = [...c.moments];
+  while (ms.length < at) ms.push({ t: ms.length, gates: [] });
+  ms.splice(at, 0, ...Array.from({ length: count }, () => ({ t: 0, gates: [] })));
+  return { ...c, moments: ms.map((m, t) => ({ ...m, t })) };
+}
+
+/**
+ * Move a group of gates by dt columns and dq wires as one block. The offsets are clamped so the
+ * whole block stays on the board; columns are appended when it moves past the end.
+ */
+function moveGates(c: Circuit, refs: GateRef[], dt: number, dq: number): { circuit: Circuit; refs: GateRef[] } {
+  const ids = new Set(refs.map((r) => r.id));
+  const picked: { t: number; gate: Gate }[] = [];
+  const ms = c.moments.map((m) => ({
+    ...m,
+    gates: m.gates.filter((g) => (ids.has(g.id) ? (picked.push({ t: m.t, gate: g }), false) : true)),
+  }));
+  if (!picked.length) return { circuit: c, refs: [] };
+  const wires = picked.flatMap((p) => gateQubits(p.gate));
+  dq = Math.max(-Math.min(...wires), Math.min(c.nQubits - 1 - Math.max(...wires), dq));
+  dt = Math.max(-Math.min(...picked.map((p) => p.t)), dt);
+  if (dt === 0 && dq === 0) return { circuit: c, refs: picked.map((p) => ({ t: p.t, id: p.gate.id })) };
+  for (const p of picked) {
+    const t = p.t + dt;
+    while (ms.length <= t) ms.push({ t: ms.length, gates: [] });
+    ms[t].gates.push(shiftGate(p.gate, dq, c.nQubits));
+  }
+  return { circuit: { ...c, moments: ms }, refs: picked.map((p) => ({ t: p.t + dt, id: p.gate.id })) };
+}
+
+function patchGate(c: Circuit, t: number, id: string, patch: Partial<Gate>): Circuit {
+  return {
+    ...c,
+    moments: c.moments.map((m) => (m.t === t ? { ...m, gates: m.gates.map((g) => (g.id === id ? { ...g, ...patch } : g)) } : m)),
+  };
+}
+
+function removeGates(c: Circuit, refs: GateRef[]): Circuit {
+  const ids = new Set(refs.map((r) => r.id));
+  return { ...c, moments: c.moments.map((m) => ({ ...m, gates: m.gates.filter((g) => !ids.has(g.id)) })) };
+}
+
+// Clipboard JSON: gates with columns relative to the block's first column and wires relative to
+// its top wire, so a block can be pasted at any column and qubit offset. Classical bits stay absolute.
+const CLIPBOARD_FORMAT = "quantum-circuit-designer/gates";
+// The custom gates a block uses travel with it, so it can be pasted into another project.
+type ClipboardBlock = {
+  format: typeof CLIPBOARD_FORMAT;
+  version: 1;
+  qubits: number;
+  moments: Gate[][];
+  definitions?: GateDefinition[];
+};
+
+// The definitions `gates` instantiate, directly or inside other definitions, in definition order.
+function usedDefinitions(gates: Gate[], definitions: GateDefinition[] = []): GateDefinition[] {
+  const used = new Set<string>();
+  const visit = (g: Gate) => {
+    if (g.type !== "CUSTOM" || used.has(g.name!)) return;
+    used.add(g.name!);
+    definitions.find((d) => d.name === g.name)?.moments.flat().forEach(visit);
+  };
+  gates.forEach(visit);
+  return definitions.filter((d) => used.has(d.name));
+}
+
+// `c` with the definitions it lacks appended; a different gate under a taken name is refused.
+function mergeDefinitions(c: Circuit, incoming: GateDefinition[] = []): Circuit {
+  const definitions = [...(c.definitions ?? [])];
+  for (const def of incoming) {
+    const own = definitions.find((d) => d.name === def.name);
+    if (!own) definitions.push(def);
+    else if (JSON.stringify(own) !== JSON.stringify(def)) throw new Error(`A different custom gate named "${def.name}" already exists`);
+  }
+  return definitions.length ? { ...c, definitions } : c;
+}
+
+function copyGates(c: Circuit, refs: GateRef[]): ClipboardBlock | null {
+  const ids = new Set(refs.map((r) => r.id));
+  const picked = c.moments.flatMap((m) => m.gates.filter((g) => ids.has(g.id)).map((gate) => ({ t: m.t, gate })));
+  if (!picked.length) return null;
+  const t0 = Math.min(...picked.map((p) => p.t));
+  const wires = picked.flatMap((p) => gateQubits(p.gate));
+  const q0 = Math.min(...wires);
+  const moments: Gate[][] = Array.from({ length: Math.max(...picked.map((p) => p.t)) - t0 + 1 }, () => []);
+  for (const p of picked) moments[p.t - t0].push(shiftGate(p.gate, -q0, c.nQubits));
+  const block: ClipboardBlock = { format: CLIPBOARD_FORMAT, version: 1, qubits: Math.max(...wires) - q0 + 1, moments };
+  const definitions = usedDefinitions(moments.flat(), c.definitions);
+  if (definitions.length) block.definitions = definitions;
+  return block;
+}
+
+// Clipboard text back to a block; null when the text is not ours, ProjectError when it is but is damaged.
+function readClipboard(text: string): ClipboardBlock | null {
+  let doc: unknown;
+  try {
+    doc = JSON.parse(text);
+  } catch {
+    return null;
+  }
+  if (!isObject(doc) || doc.format !== CLIPBOARD_FORMAT) return null;
+  const qubits = expectInt(doc.qubits, "qubits", 1, MAX_QUBITS);
+  const definitions = doc.definitions === undefined ? [] : readDefinitions(doc.definitions, "definitions");
+  const scratch: Circuit = { nQubits: qubits, nClbits: MAX_QUBITS, moments: [], definitions };
+  const ids = new Set<string>();
+  const moments = expectArray(doc.moments, "moments").map((m, t) =>
+    expectArray(m, `moments[${t}]`).map((g, k) => readGate(g, `moments[${t}][${k}]`, scratch, ids))
+  );
+  const block: ClipboardBlock = { format: CLIPBOARD_FORMAT, version: 1, qubits, moments };
+  if (definitions.length) block.definitions = definitions;
+  return block;
+}
+
+/** Insert a block as new columns before moment `t`, with its top wire on `q` (pulled up to fit). */
+function pasteBlock(c: Circuit, block: ClipboardBlock, t: number, q: number): { circuit: Circuit; refs: GateRef[] } {
+  if (block.qubits > c.nQubits) {
+    throw new Error(`The copied gates span ${block.qubits} qubits but the circuit has ${c.nQubits}`);
+  }
+  const dq = Math.max(0, Math.min(q, c.nQubits - block.qubits));
+  const out = insertMoments(mergeDefinitions(c, block.definitions), t, block.moments.length);
+  const refs: GateRef[] = [];
+  let nClbits = out.nClbits;
+  block.moments.forEach((gates, k) => {
+    const m = out.moments[t + k];
+    for (const g of gates) {
+      const gate = { ...shiftGate(g, dq, c.nQubits), id: uid() };
+      if (gate.type === "MEASURE") nClbits = Math.max(nClbits, measuredBit(gate) + 1);
+      for (const b of gate.condition?.bits ?? []) nClbits = Math.max(nClbits, b + 1);
+      m.gates.push(gate);
+      refs.push({ t: t + k, id: gate.id });
+    }
+  });
+  return { circuit: { ...out, nClbits }, refs };
+}
+
+/* ================= Custom gates: collapse & expand ================= */
+/**
+ * Replace the selected gates by an instance of a new definition `name` at their first column.
+ * The slots are the wires they touch, top to bottom. The block must be unitary and no other
+ * gate may sit on those wires between its columns, or moving it into one column would reorder
+ * them, nor inside the box's span in the first column. Angles are copied as numbers: symbols
+ * stay with the circuit, not the definition.
+ */
+function collapseToGate(c: Circuit, refs: GateRef[], name: string): { circuit: Circuit; ref: GateRef } {
+  if (!DEFINITION_NAME_RE.test(name)) throw new Error("Gate names are letters, digits and underscores, not starting with a digit");
+  if (name.toUpperCase() in GATE_ARITY || name.toUpperCase() in GATE_ALIASES) throw new Error(`"${name}" is a built-in gate`);
+  if (c.definitions?.some((d) => d.name === name)) throw new Error(`A custom gate named "${name}" already exists`);
+  const ids = new Set(refs.map((r) => r.id));
+  const picked = c.moments.flatMap((m) => m.gates.filter((g) => ids.has(g.id)).map((gate) => ({ t: m.t, gate })));
+  if (!picked.length) throw new Error("Select the gates to save first");
+  if (picked.some((p) => p.gate.type === "MEASURE" || p.gate.condition)) {
+    throw new Error("Custom gates cannot contain measurements or classically-controlled gates");
+  }
+  const wires = [...new Set(picked.flatMap((p) => gateQubits(p.gate)))].sort((a, b) => a - b);
+  const t0 = Math.min(...picked.map((p) => p.t)), t1 = Math.max(...picked.map((p) => p.t));
+  const blocked = c.moments
+    .slice(t0, t1 + 1)
+    .some((m) => m.gates.some((g) => !ids.has(g.id) && gateQubits(g).some((q) => wires.includes(q))));
+  if (blocked) throw new Error("Other gates act on these wires between the selected ones; select them too or move them away");
+  // the box spans every wire from the first slot to the last in column t0
+  const lo = wires[0], hi = wires[wires.length - 1];
+  const covered = (c.moments[t0]?.gates ?? []).some((g) => {
+    const qs = gateQubits(g);
+    return !ids.has(g.id) && Math.min(...qs) <= hi && Math.max(...qs) >= lo;
+  });
+  if (covered) throw new Error(`The new gate would cover other gates at t${t0}; move them to another column first`);
+
+  const slot = (q: number) => wires.indexOf(q);
+  const moments: Gate[][] = Array.from({ length: t1 - t0 + 1 }, () => []);
+  for (const { t, gate } of picked) {
+    const body: Gate = { ...gate, id: uid(), targets: gate.targets.map(slot) };
+    delete body.symbols;
+    if (gate.controls) body.controls = gate.controls.map((ctl) => ({ ...ctl, qubit: slot(ctl.qubit) }));
+    moments[t - t0].push(body);
+  }
+  const def: GateDefinition = { name, nQubits: wires.length, moments: moments.filter((gates) => gates.length) };
+  const instance: Gate = { id: uid(), type: "CUSTOM", name, targets: wires };
+  const out = removeGates(c, refs);
+  out.moments = out.moments.map((m) => (m.t === t0 ? { ...m, gates: [...m.gates, instance] } : m));
+  return { circuit: { ...out, definitions: [...(c.definitions ?? []), def] }, ref: { t: t0, id: instance.id } };
+}
+
+// A custom gate replaced by one level of its body, spread over new columns from its own.
+function expandCustomGate(c: Circuit, t: number, id: string): { circuit: Circuit; refs: GateRef[] } {
+  const g = c.moments[t]?.gates.find((x) => x.id === id);
+  if (!g || g.type !== "CUSTOM") return { circuit: c, refs: [] };
+  const body = expandComposite(g, c.definitions ?? []).map((gates) => gates.map((b) => ({ ...b, id: uid() })));
+  const out = insertMoments(removeGates(c, [{ t, id }]), t + 1, Math.max(0, body.length - 1));
+  const refs: GateRef[] = [];
+  out.moments = out.moments.map((m) => {
+    const gates = body[m.t - t];
+    if (!gates) return m;
+    refs.push(...gates.map((b) => ({ t: m.t, id: b.id })));
+    return { ...m, gates: [...m.gates, ...gates] };
+  });
+  return { circuit: out, refs };
+}
+
+/* ================= Moment validation & layout ================= */
+// A problem inside one moment: the gates involved and what is wrong.
+type Conflict = { t: number; ids: string[]; message: string };
+
+const wireName = (c: Circuit, q: number) => c.labels?.[q] || `q${q}`;
+
+/**
+ * Check that every moment is a valid circuit layer: no gate lists a wire twice, no two gates
+ * share a wire or sit on each other's vertical line, and no classical bit is written twice or
+ * read while it is written.
+ */
+function findConflicts(c: Circuit): Conflict[] {
+  const out: Conflict[] = [];
+  for (const m of c.moments) {
+    const info = m.gates.map((g) => {
+      const qs = gateQubits(g);
+      return {
+        g,
+        qs: new Set(qs),
+        lo: Math.min(...qs),
+        hi: Math.max(...qs),
+        reads: new Set(g.condition?.bits ?? []),
+        writes: new Set(g.type === "MEASURE" ? [measuredBit(g)] : []),
+      };
+    });
+    for (const a of info) {
+      if (a.qs.size < gateQubits(a.g).length) {
+        out.push({ t: m.t, ids: [a.g.id], message: `${gateName(a.g.type)} uses the same wire more than once` });
+      }
+    }
+    info.forEach((a, i) => {
+      for (const b of info.slice(i + 1)) {
+        const pair = `${gateName(a.g.type)} and ${gateName(b.g.type)}`;
+        const shared = [...a.qs].find((q) => b.qs.has(q));
+        const clash = [...a.writes].find((bit) => b.writes.has(bit) || b.reads.has(bit)) ??
+          [...b.writes].find((bit) => a.reads.has(bit));
+        let message: string | null = null;
+        if (shared !== undefined) message = `${pair} both act on ${wireName(c, shared)}`;
+        else if (a.lo <= b.hi && b.lo <= a.hi) message = `${pair} overlap on the diagram`;
+        else if (clash !== undefined) message = `${pair} both use c${clash}`;
+        if (message) out.push({ t: m.t, ids: [a.g.id, b.g.id], message });
+      }
+    });
+  }
+  return out;
+}
+
+/**
+ * Repack all gates into the fewest moments, keeping their order on every wire and classical
+ * bit: "asap" moves each gate as early as it can go, "alap" as late.
+ */
+function compactCircuit(c: Circuit, mode: "asap" | "alap"): Circuit {
+  const ops = c.moments.flatMap((m) => m.gates);
+  if (mode === "asap") return { ...c, moments: layoutGates(ops, c.nQubits) };
+  // ALAP is ASAP on the reversed program, read backwards
+  const reversed = layoutGates([...ops].reverse(), c.nQubits).reverse();
+  return { ...c, moments: reversed.map((m, t) => ({ t, gates: [...m.gates].reverse() })) };
+}
+
+// Remove moment `t` and its gates; later gates shift left.
+function deleteMoment(c: Circuit, t: number): Circuit {
+  return { ...c, moments: c.moments.filter((m) => m.t !== t).map((m, k) => ({ ...m, t: k })) };
+}
+
+/* ================= Wire editing ================= */
+/**
+ * Rebuild a circuit on `nQubits` wires where old wire q becomes map[q], or is removed when
+ * map[q] < 0. Gates touching a removed wire are dropped; labels travel with their wires.
+ */
+function remapWires(c: Circuit, map: number[], nQubits: number): Circuit {
+  const moveGate = (g: Gate): Gate[] =>
+    gateQubits(g).some((q) => map[q] < 0)
+      ? []
+      : [{
+          ...g,
+          targets: g.targets.map((q) => map[q]),
+          ...(g.controls && { controls: g.controls.map((ctl) => ({ ...ctl, qubit: map[ctl.qubit] })) }),
+        }];
+  const labels: string[] = new Array(nQubits).fill("");
+  c.labels?.forEach((l, q) => {
+    if (map[q] >= 0) labels[map[q]] = l;
+  });
+  const out: Circuit = { ...c, nQubits, moments: c.moments.map((m) => ({ ...m, gates: m.gates.flatMap(moveGate) })) };
+  if (labels.some(Boolean)) out.labels = labels;
+  else delete out.labels;
+  return out;
+}
+
+const wireRange = (n: number) => Array.from({ length: n }, (_, q) => q);
+
+// New empty wire at index `at`; wires at and below it move down one.
+const insertWire = (c: Circuit, at: number) =>
+  remapWires(c, wireRange(c.nQubits).map((q) => (q >= at ? q + 1 : q)), c.nQubits + 1);
+
+// Remove wire `w` with every gate touching it.
+const deleteWire = (c: Circuit, w: number) =>
+  remapWires(c, wireRange(c.nQubits).map((q) => (q === w ? -1 : q > w ? q - 1 : q)), c.nQubits - 1);
+
+// Take wire `from` out and put it back at position `to`.
+function moveWire(c: Circuit, from: number, to: number): Circuit {
+  const order = wireRange(c.nQubits);
+  order.splice(from, 1);
+  order.splice(to, 0, from);
+  const map: number[] = [];
+  order.forEach((q, k) => (map[q] = k));
+  return remapWires(c, map, c.nQubits);
+}
+
+// Add or remove wires at the bottom; removed wires take their gates with them.
+const resizeWires = (c: Circuit, n: number) =>
+  remapWires(c, wireRange(c.nQubits).map((q) => (q < n ? q : -1)), n);
+
+const gatesOnWires = (c: Circuit, wires: (q: number) => boolean) =>
+  c.moments.reduce((n, m) => n + m.gates.filter((g) => gateQubits(g).some(wires)).length, 0);
+
+// Width of the label strip left of the wires, wide enough for custom names.
+const labelWidth = (c: Circuit) => Math.max(36, 12 + 7 * Math.max(0, ...(c.labels ?? []).map((l) => l.length)));
+
+/* ================= Edit history (undo/redo) ================= */
+// One undoable edit: the circuit before and after it. Edits sharing a `key` within
+// COALESCE_MS merge into one entry (e.g. repeated drags of the same gate).
+type HistoryEntry = { label: string; before: Circuit; after: Circuit; key?: string; at: number };
+type HistoryState = { circuit: Circuit; entries: HistoryEntry[]; pos: number }; // entries[0..pos) are applied
+
+const HISTORY_LIMIT = 200;
+const COALESCE_MS = 1000;
+
+function useCircuitHistory(initial: () => Circuit) {
+  const [state, setState] = useState<HistoryState>(() => ({ circuit: initial(), entries: [], pos: 0 }));
+
+  const edit = useCallback((label: string, update: (c: Circuit) => Circuit, key?: string) => {
+    setState((s) => {
+      const after = update(s.circuit);
+      if (after === s.circuit) return s;
+      const now = Date.now();
+      const entries = s.entries.slice(0, s.pos);
+      const last = entries[entries.length - 1];
+      if (key && last?.key === key && now - last.at < COALESCE_MS) {
+        entries[entries.length - 1] = { ...last, after, at: now };
+      } else {
+        entries.push({ label, before: s.circuit, after, key, at: now });
+        if (entries.length > HISTORY_LIMIT) entries.shift();
+      }
+      return { circuit: after, entries, pos: entries.length };
+    });
+  }, []);
+
+  // Move to the point where the first `pos` entries are applied.
+  const goTo = useCallback((pos: number) => {
+    setState((s) => {
+      if (pos < 0 || pos > s.entries.length || pos === s.pos) return s;
+      return { ...s, pos, circuit: pos === 0 ? s.entries[0].before : s.entries[pos - 1].after };
+    });
+  }, []);
+
+  // Replace the circuit and forget the history (opening another project).
+  const reset = useCallback((circuit: Circuit) => setState({ circuit, entries: [], pos: 0 }), []);
+
+  return { ...state, edit, goTo, reset };
+}
+
+/* ================= Simulation worker ================= */
+const newSimWorker = () => new Worker(new URL("./simWorker.ts", import.meta.url), { type: "module" });
+
+/**
+ * Runs every new request in the simulation worker and keeps the latest response. A request
+ * made while the worker is still busy cancels the running one by terminating the worker,
+ * since a synchronous simulation can't be interrupted from outside.
+ */
+function useSimulation(request: Omit<SimRequest, "id">) {
+  const workerRef = useRef<Worker | null>(null);
+  const busyRef = useRef(false);
+  const idRef = useRef(0);
+  const [response, setResponse] = useState<SimResponse | null>(null);
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const stop = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    busyRef.current = false;
+  };
+  const cancel = () => {
+    if (!busyRef.current) return;
+    stop();
+    setPending(false);
+  };
+
+  useEffect(() => {
+    if (busyRef.current) stop();
+    if (!workerRef.current) {
+      const worker = newSimWorker();
+      worker.onmessage = (e: MessageEvent<SimResponse | { id: number; error: string }>) => {
+        if (e.data.id !== idRef.current) return;
+        busyRef.current = false;
+        setPending(false);
+        if ("error" in e.data) setError(e.data.error);
+        else {
+          setError(null);
+          setResponse(e.data);
+        }
+      };
+      // a worker that dies (out of memory, failed to load) never answers; drop it so the next
+      // request starts a fresh one
+      const fail = (message: string) => {
+        if (workerRef.current !== worker) return;
+        stop();
+        setPending(false);
+        setError(message);
+      };
+      worker.onerror = (e) => {
+        e.preventDefault();
+        fail(e.message || "The simulation worker stopped unexpectedly");
+      };
+      worker.onmessageerror = () => fail("The simulation result could not be received");
+      workerRef.current = worker;
+    }
+    busyRef.current = true;
+    setPending(true);
+    workerRef.current.postMessage({ ...request, id: ++idRef.current });
+  }, [request]);
+  useEffect(() => stop, []);
+
+  return { response, pending, error, cancel };
+}
+
+/* ================= Main App ================= */
+const PLAY_INTERVAL_MS = 600; // step-through playback speed, one moment per tick
+const DEBUG_MAX_QUBITS = 14; // the debugger keeps one state per moment
+const BACKEND_LABELS: Record<BackendInfo["kind"], string> = {
+  statevector: "Statevector",
+  "density-matrix": "Density matrix",
+  stabilizer: "Stabilizer tableau",
+};
+
+export default function App() {
+  // Project open at the last visit (autosaved to localStorage), restored once on startup
+  const [restored] = useState(restoreLastProject);
+  const [projectMeta, setProjectMeta] = useState<ProjectMeta>(() => restored?.meta ?? newProjectMeta());
+  const [recent, setRecent] = useState<ProjectMeta[]>(loadProjectIndex);
+
+  const {
+    circuit,
+    entries: historyEntries,
+    pos: historyPos,
+    edit: editCircuit,
+    goTo: goToHistory,
+    reset: resetHistory,
+  } = useCircuitHistory(() => restored?.project.circuit ?? emptyCircuit(2));
+  const [shots, setShots] = useState(restored?.project.shots ?? 512);
+  const [seed, setSeed] = useState(restored?.project.seed ?? DEFAULT_SEED);
+  const [observables, setObservables] = useState<string[]>(restored?.project.observables ?? []);
+
+  // Noise model (density-matrix backend) and ideal/noisy comparison
+  const [noise, setNoise] = useState<NoiseModel>(restored?.project.noise ?? { gate: {}, qubit: [], readout: [] });
+  const [noiseOn, setNoiseOn] = useState(false);
+  const [compareIdeal, setCompareIdeal] = useState(true);
+  const noiseActive = noiseOn && circuit.nQubits <= DM_MAX_QUBITS;
+
+  // Theme with persistence
+  const [theme, setTheme] = useState<ThemeKey>(() => {
+    const saved = localStorage.getItem("theme") as ThemeKey | null;
+    if (saved === "light" || saved === "dark") return saved;
+    const prefersDark =
+      window.matchMedia &&
+      window.matchMedia("(prefers-color-scheme: dark)").matches;
+    return prefersDark ? "dark" : "light";
+  });
+  useEffect(() => {
+    document.body.classList.remove("theme-light", "theme-dark");
+    document.body.classList.add(theme === "dark" ? "theme-dark" : "theme-light");
+    localStorage.setItem("theme", theme);
+  }, [theme]);
+
+  // Selected gates; the Selection card edits gate properties when exactly one is selected
+  const [selection, setSelection] = useState<GateRef[]>([]);
+  const selected = selection.length === 1 ? selection[0] : null;
+
+  // drag state (active drag only)
+  const [drag, setDrag] = useState<
+    | null
+    | {
+        id: string;
+        t: number;
+        type: GateType;
+        targets: number[];
+        dx: number; // local offset inside cell (xCenter)
+        dy: number; // local offset inside cell (yCenter)
+        group: GateRef[]; // every gate moving with this one
+        transformPx?: { tx: number; ty: number }; // live pixel transform for smooth tracking
+      }
+  >(null);
+
+  const svgRef = useRef<SVGSVGElement | null>(null);
+
+  // Zoom/scroll container and zoom factor
+  const svgContainerRef = useRef<HTMLDivElement | null>(null);
+  const [canvasZoom, setCanvasZoom] = useState(1);
+  const [fitKey, setFitKey] = useState(0);
+  const [showBloch, setShowBloch] = useState(true);
+  const labelW = labelWidth(circuit) + (showBloch ? BLOCH_W : 0);
+
+  // Fit to view whenever requested / structure changes
+  useEffect(() => {
+    const el = svgContainerRef.current;
+    if (!el) return;
+
+    const cellW = 72,
+      cellH = 56,
+      clH = 28;
+    const cols = Math.max(1, circuit.moments.length || 1);
+    const contentW = labelW + cols * cellW;
+    const contentH = circuit.nQubits * cellH + circuit.nClbits * clH;
+
+    const margin = 16;
+    const fitX = contentW / Math.max(1, el.clientWidth - margin);
+    const fitY = contentH / Math.max(1, el.clientHeight - margin);
+    const z = 1 / Math.max(fitX, fitY);
+    const nz = Math.min(3, Math.max(0.4, +z.toFixed(2)));
+    setCanvasZoom(nz);
+
+    requestAnimationFrame(() => {
+      const pxW = contentW * nz,
+        pxH = contentH * nz;
+      el.scrollLeft = Math.max(0, (pxW - el.clientWidth) / 2);
+      el.scrollTop = Math.max(0, (pxH - el.clientHeight) / 2);
+    });
+  }, [fitKey, circuit.moments.length, circuit.nQubits, circuit.nClbits, labelW]);
+
+  // Normalize wheel zoom; keep cursor point stable
+  const onContainerWheel = (e: React.WheelEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    const el = svgContainerRef.current;
+    if (!el) return;
+    const LINE_HEIGHT = 16;
+    const deltaY =
+      e.deltaMode === 1
+        ? e.deltaY * LINE_HEIGHT
+        : e.deltaMode === 2
+        ? e.deltaY * window.innerHeight
+        : e.deltaY;
+    const delta = -deltaY;
+    const factor = Math.exp(delta * 0.0012);
+    const newZ = Math.min(3, Math.max(0.4, canvasZoom * factor));
+
+    const rect = el.getBoundingClientRect();
+    const cx = e.clientX - rect.left;
+    const cy = e.clientY - rect.top;
+    const ux = (el.scrollLeft + cx) / canvasZoom;
+    const uy = (el.scrollTop + cy) / canvasZoom;
+
+    setCanvasZoom(+newZ.toFixed(2));
+    requestAnimationFrame(() => {
+      el.scrollLeft = ux * newZ - cx;
+      el.scrollTop = uy * newZ - cy;
+    });
+  };
+
+  // Simple middle-mouse / space panning (optional – space flag kept simple)
+  const spaceDownRef = useRef(false);
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code === "Space") spaceDownRef.current = true;
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (e.code === "Space") spaceDownRef.current = false;
+    };
+    window.addEventListener("keydown", onKeyDown);
+    window.addEventListener("keyup", onKeyUp);
+    return () => {
+      window.removeEventListener("keydown", onKeyDown);
+      window.removeEventListener("keyup", onKeyUp);
+    };
+  }, []);
+  const panStartRef = useRef<{ x: number; y: number; sl: number; st: number } | null>(null);
+  const beginPanScroll = (clientX: number, clientY: number) => {
+    const c = svgContainerRef.current;
+    if (!c) return;
+    panStartRef.current = { x: clientX, y: clientY, sl: c.scrollLeft, st: c.scrollTop };
+    c.classList.add("panning");
+  };
+  const movePanScroll = (clientX: number, clientY: number) => {
+    const c = svgContainerRef.current;
+    if (!c || !panStartRef.current) return;
+    const dx = clientX - panStartRef.current.x;
+    const dy = clientY - panStartRef.current.y;
+    c.scrollLeft = panStartRef.current.sl - dx;
+    c.scrollTop = panStartRef.current.st - dy;
+  };
+  const endPanScroll = () => {
+    const c = svgContainerRef.current;
+    if (!c) return;
+    panStartRef.current = null;
+    c.classList.remove("panning");
+  };
+
+  // Step-through debugger: the charts show the state after the first `debugAt` moments.
+  // Every per-moment state is simulated once, so scrubbing only re-samples the counts.
+  const [debugOn, setDebugOn] = useState(false);
+  const [cursor, setCursor] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const [breakpoints, setBreakpoints] = useState<number[]>([]);
+  const steps = circuit.moments.length;
+  const canDebug = circuit.nQubits <= DEBUG_MAX_QUBITS;
+  const debugAt = debugOn && canDebug ? Math.min(cursor, steps) : null;
+
+  // Simulation runs in a worker, so the results below trail the circuit by one round trip
+  const simRequest = useMemo(
+    () => ({ circuit, shots, seed, noise: noiseActive ? noise : undefined, trace: debugOn && canDebug }),
+    [circuit, shots, seed, noise, noiseActive, debugOn, canDebug]
+  );
+  const { response, pending: simPending, error: simError, cancel: cancelSimulation } = useSimulation(simRequest);
+
+  // What the result cards show: the final run, or the run up to the debugger's cursor
+  const view = useMemo(() => {
+    if (!response) return null;
+    const { circuit: circ, traces } = response;
+    let { ideal: sim, noisy, counts, noisyCounts, bloch } = response;
+    if (debugAt !== null && traces) {
+      const at = Math.min(debugAt, circ.moments.length);
+      // counts of a cut-off circuit only read the measurements placed before the cursor
+      const shown = { ...circ, moments: circ.moments.slice(0, at) };
+      sim = traces.ideal[at];
+      noisy = noisy && traces.noisy[at];
+      counts = sampleCounts(shown, sim, shots, seed);
+      noisyCounts = noisy && sampleCounts(shown, noisy, shots, seed);
+      bloch = blochVectors(noisy ?? sim, circ.nQubits);
+    }
+    return {
+      circuit: circ,
+      sim,
+      noisy,
+      probs: noisy?.probs ?? sim.probs,
+      counts: noisyCounts ?? counts,
+      idealProbs: noisy && sim.probs,
+      idealCounts: noisy && counts,
+      bloch, // single-qubit views of whichever run the charts show (noisy when noise is on)
+      backend: (noisy ?? sim).backend,
+    };
+  }, [response, debugAt, shots, seed]);
+  const stepNote = debugAt === null ? "" : debugAt === 0 ? " · initial state" : ` · after t${debugAt - 1}`;
+  const [bigEndian, setBigEndian] = useState(false);
+  const showIdeal = noiseActive && compareIdeal;
+  const simStatus = simError ? (
+    <p style={{ fontSize: 12, color: "#ef4444", margin: 0 }}>Simulation failed: {simError}</p>
+  ) : (
+    !view && <p style={{ fontSize: 12, opacity: 0.7, margin: 0 }}>Simulating…</p>
+  );
+  const conflicts = useMemo(() => findConflicts(circuit), [circuit]);
+
+  /* -------- Circuit editing helpers (each one is an undoable edit) -------- */
+  const addMoment = () => {
+    editCircuit("Add time step", (c) => ({ ...c, moments: [...c.moments, { t: c.moments.length, gates: [] }] }));
+  };
+
+  const addGate = (type: GateType, q0: number, t: number) => {
+    if (GATE_ARITY[type] > circuit.nQubits) return;
+    editCircuit(`Add ${gateName(type)}`, (c) => {
+      const ms = c.moments.map((m) => ({ ...m, gates: [...m.gates] }));
+      while (ms.length <= t) ms.push({ t: ms.length, gates: [] });
+      // consecutive wires starting at q0, pulled up if they would run off the bottom
+      const first = Math.max(0, Math.min(q0, c.nQubits - GATE_ARITY[type]));
+      const gate: Gate = {
+        id: uid(),
+        type,
+        targets: Array.from({ length: GATE_ARITY[type] }, (_, k) => first + k),
+      };
+      const params = DEFAULT_PARAMS[type];
+      if (params) gate.params = [...params];
+      if (type === "MEASURE") gate.cbit = first;
+      ms[t].gates.push(gate);
+      return { ...c, nClbits: type === "MEASURE" ? Math.max(c.nClbits, first + 1) : c.nClbits, moments: ms };
+    });
+  };
+
+  const addCustomGate = (def: GateDefinition) => {
+    if (def.nQubits > circuit.nQubits) return;
+    editCircuit(`Add ${def.name}`, (c) => {
+      const gate: Gate = { id: uid(), type: "CUSTOM", name: def.name, targets: Array.from({ length: def.nQubits }, (_, k) => k) };
+      return { ...c, moments: [...c.moments, { t: c.moments.length, gates: [gate] }] };
+    });
+  };
+  // a definition can go once no gate, and no other definition, instantiates it
+  const definitionInUse = (name: string) =>
+    [...circuit.moments.flatMap((m) => m.gates), ...(circuit.definitions ?? []).flatMap((d) => d.moments.flat())].some(
+      (g) => g.type === "CUSTOM" && g.name === name
+    );
+  const deleteDefinition = (name: string) => {
+    editCircuit(`Delete custom gate ${name}`, (c) => {
+      const definitions = (c.definitions ?? []).filter((d) => d.name !== name);
+      const next: Circuit = { ...c, definitions };
+      if (!definitions.length) delete next.definitions;
+      return next;
+    });
+  };
+
+  const setQubits = (n: number) => {
+    const nClamped = Math.max(1, Math.min(MAX_QUBITS, n));
+    if (nClamped === circuit.nQubits) return;
+    // wires are added or removed at the bottom; everything above keeps its gates
+    const lost = gatesOnWires(circuit, (q) => q >= nClamped);
+    if (lost && !confirm(`Removing the bottom wires also deletes ${lost} gate${lost === 1 ? "" : "s"} on them. Continue?`)) {
+      return;
+    }
+    relayout(`Set ${nClamped} qubit${nClamped === 1 ? "" : "s"}`, resizeWires(circuit, nClamped));
+    setFitKey((k) => k + 1);
+  };
+
+  const updateGate = (label: string, t: number, id: string, patch: Partial<Gate>) => {
+    editCircuit(label, (c) => patchGate(c, t, id, patch), `${label}:${id}`);
+  };
+  // A bound angle moves its symbol, so every gate sharing the symbol follows.
+  const setGateParams = (t: number, g: Gate, params: number[]) => {
+    const values = Object.fromEntries((g.symbols ?? []).flatMap((name, i) => (name ? [[name, params[i]]] : [])));
+    const label = `Edit ${gateName(g.type)} angle`;
+    editCircuit(label, (c) => assignSymbols(patchGate(c, t, g.id, { params }), values), `${label}:${g.id}`);
+  };
+  // Binding to a symbol already in use adopts its value; a new symbol starts at the angle's value.
+  const bindParam = (t: number, g: Gate, i: number, name: string | null) => {
+    const params = [...(g.params ?? DEFAULT_PARAMS[g.type] ?? [])];
+    const symbols = params.map((_, k) => g.symbols?.[k] ?? null);
+    symbols[i] = name;
+    const shared = name === null ? undefined : circuitSymbols(circuit).get(name);
+    if (shared !== undefined) params[i] = shared;
+    updateGate(name ? `Bind angle to ${name}` : "Unbind angle", t, g.id, {
+      params,
+      symbols: symbols.some(Boolean) ? symbols : undefined,
+    });
+  };
+
+  const selectedGate = selected
+    ? circuit.moments[selected.t]?.gates.find((g) => g.id === selected.id) ?? null
+    : null;
+
+  // History label for an action on the selection, e.g. "Delete H" or "Delete 4 gates"
+  const selectionLabel = (verb: string) =>
+    selectedGate ? `${verb} ${gateName(selectedGate.type)}` : `${verb} ${selection.length} gates`;
+
+  const deleteSelection = () => {
+    if (!selection.length) return;
+    editCircuit(selectionLabel("Delete"), (c) => removeGates(c, selection));
+    setSelection([]);
+  };
+
+  /* -------- Custom gates: collapse the selection, expand an instance -------- */
+  const [newGateName, setNewGateName] = useState("");
+  const saveAsGate = () => {
+    const name = newGateName.trim();
+    try {
+      const { circuit: next, ref } = collapseToGate(circuit, selection, name);
+      editCircuit(`Save ${name}`, () => next);
+      setSelection([ref]);
+      setNewGateName("");
+    } catch (err) {
+      alert((err as Error).message);
+    }
+  };
+  const expandGate = (t: number, g: Gate) => {
+    const { circuit: next, refs } = expandCustomGate(circuit, t, g.id);
+    editCircuit(`Expand ${g.name}`, () => next);
+    setSelection(refs);
+  };
+
+  /* -------- Layout: compaction and columns -------- */
+  const [layoutColumn, setLayoutColumn] = useState(0);
+  const column = Math.max(0, Math.min(layoutColumn, circuit.moments.length - 1));
+  // apply a whole-circuit rearrangement, keeping selected gates selected wherever they moved
+  const relayout = (label: string, next: Circuit) => {
+    editCircuit(label, () => next);
+    setSelection((sel) =>
+      sel.flatMap((r) => {
+        const m = next.moments.find((mm) => mm.gates.some((g) => g.id === r.id));
+        return m ? [{ t: m.t, id: r.id }] : [];
+      })
+    );
+  };
+  const compact = (mode: "asap" | "alap") => {
+    const next = compactCircuit(circuit, mode);
+    if (JSON.stringify(next.moments) === JSON.stringify(circuit.moments)) return;
+    relayout(mode === "asap" ? "Compact (ASAP)" : "Compact (ALAP)", next);
+  };
+  const insertColumn = (t: number) => relayout("Insert column", insertMoments(circuit, t, 1));
+  const deleteColumn = (t: number) => {
+    const n = circuit.moments[t]?.gates.length ?? 0;
+    if (n && !confirm(`Column ${t} holds ${n} gate${n === 1 ? "" : "s"}. Delete ${n === 1 ? "it" : "them"} too?`)) return;
+    relayout("Delete column", deleteMoment(circuit, t));
+  };
+
+  /* -------- Wires: insert, delete, reorder, rename -------- */
+  const insertWireAt = (at: number) => {
+    if (circuit.nQubits >= MAX_QUBITS) return;
+    relayout(`Insert wire at ${at}`, insertWire(circuit, at));
+    setFitKey((k) => k + 1);
+  };
+  const deleteWireAt = (q: number) => {
+    if (circuit.nQubits <= 1) return;
+    const n = gatesOnWires(circuit, (w) => w === q);
+    const name = wireName(circuit, q);
+    if (n && !confirm(`${name} has ${n} gate${n === 1 ? "" : "s"} on it, which will be deleted too. Delete ${name}?`)) return;
+    relayout(`Delete ${name}`, deleteWire(circuit, q));
+    setFitKey((k) => k + 1);
+  };
+  const moveWireTo = (from: number, to: number) => {
+    if (from === to) return;
+    relayout(`Move ${wireName(circuit, from)}`, moveWire(circuit, from, to));
+  };
+  const renameWire = (q: number, name: string) => {
+    editCircuit(
+      `Rename ${wireName(circuit, q)}`,
+      (c) => {
+        const labels = Array.from({ length: c.nQubits }, (_, k) => c.labels?.[k] ?? "");
+        labels[q] = name;
+        const next: Circuit = { ...c, labels };
+        if (!labels.some(Boolean)) delete next.labels;
+        return next;
+      },
+      `rename:${q}`
+    );
+  };
+
+  /* -------- Clipboard -------- */
+  const [clipboard, setClipboard] = useState<ClipboardBlock | null>(null);
+  const [pasteQubit, setPasteQubit] = useState(0);
+  // pasted and duplicated gates go in new columns right after the selection (or at the end)
+  const pasteColumn = selection.length ? Math.max(...selection.map((r) => r.t)) + 1 : circuit.moments.length;
+
+  const copySelection = () => {
+    const block = copyGates(circuit, selection);
+    if (!block) return null;
+    setClipboard(block);
+    return JSON.stringify(block);
+  };
+  const cutSelection = () => {
+    const text = copySelection();
+    if (text) deleteSelection();
+    return text;
+  };
+  const pasteGates = (label: string, block: ClipboardBlock, q: number) => {
+    try {
+      const pasted = pasteBlock(circuit, block, pasteColumn, q);
+      editCircuit(label, () => pasted.circuit);
+      setSelection(pasted.refs);
+    } catch (err) {
+      alert((err as Error).message);
+    }
+  };
+  const duplicateSelection = () => {
+    const block = copyGates(circuit, selection);
+    const ids = new Set(selection.map((r) => r.id));
+    const wires = circuit.moments.flatMap((m) => m.gates.filter((g) => ids.has(g.id)).flatMap(gateQubits));
+    if (block) pasteGates(selectionLabel("Duplicate"), block, Math.min(...wires));
+  };
+  // buttons also put the block on the system clipboard so it can be pasted into another tab
+  const writeSystemClipboard = (text: string | null) => {
+    if (text) navigator.clipboard?.writeText(text).catch(() => {});
+  };
+
+  // Ctrl+C / Ctrl+X / Ctrl+V through the clipboard events, so other tabs' copies paste too
+  useEffect(() => {
+    const onCopy = (e: ClipboardEvent) => {
+      if (isTextInput(e.target) || !selection.length) return;
+      const text = e.type === "cut" ? cutSelection() : copySelection();
+      if (!text) return;
+      e.clipboardData?.setData("text/plain", text);
+      e.preventDefault();
+    };
+    const onPaste = (e: ClipboardEvent) => {
+      if (isTextInput(e.target)) return;
+      let block: ClipboardBlock | null;
+      try {
+        block = readClipboard(e.clipboardData?.getData("text/plain") ?? "") ?? clipboard;
+      } catch (err) {
+        alert(`Cannot paste these gates\n${(err as Error).message}`);
+        return;
+      }
+      if (!block) return;
+      e.preventDefault();
+      pasteGates("Paste", block, pasteQubit);
+    };
+    document.addEventListener("copy", onCopy);
+    document.addEventListener("cut", onCopy);
+    document.addEventListener("paste", onPaste);
+    return () => {
+      document.removeEventListener("copy", onCopy);
+      document.removeEventListener("cut", onCopy);
+      document.removeEventListener("paste", onPaste);
+    };
+  });
+
+  // Undo/redo; the selection may point at a gate the restored circuit no longer has
+  const undo = () => {
+    goToHistory(historyPos - 1);
+    setSelection([]);
+  };
+  const redo = () => {
+    goToHistory(historyPos + 1);
+    setSelection([]);
+  };
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || isTextInput(e.target)) return;
+      const key = e.key.toLowerCase();
+      if (key === "z" || key === "y") {
+        e.preventDefault();
+        if (key === "y" || e.shiftKey) redo();
+        else undo();
+      } else if (key === "d" && selection.length) {
+        e.preventDefault();
+        duplicateSelection();
+      } else if (key === "a") {
+        e.preventDefault();
+        setSelection(circuit.moments.flatMap((m) => m.gates.map((g) => ({ t: m.t, id: g.id }))));
+      }
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  });
+
+  // keyboard delete
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (!selection.length) return;
+      if (isTextInput(e.target)) return;
+      if (e.key === "Delete" || e.key === "Backspace") {
+        e.preventDefault();
+        deleteSelection();
+      }
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [selection]);
+
+  /* -------- Step-through debugger -------- */
+  const stepTo = (k: number) => {
+    setPlaying(false);
+    setCursor(Math.max(0, Math.min(steps, k)));
+  };
+  const toggleBreakpoint = (k: number) =>
+    setBreakpoints((bs) => (bs.includes(k) ? bs.filter((b) => b !== k) : [...bs, k].sort((a, b) => a - b)));
+  const togglePlay = () => {
+    if (playing) {
+      setPlaying(false);
+      return;
+    }
+    if (debugAt === null || debugAt >= steps) setCursor(0);
+    setDebugOn(true);
+    setPlaying(true);
+  };
+  // playback advances one moment per tick and stops at the end or on a breakpoint
+  useEffect(() => {
+    if (!playing || debugAt === null) return;
+    const timer = setTimeout(() => {
+      const next = Math.min(debugAt + 1, steps);
+      setCursor(next);
+      if (next >= steps || breakpoints.includes(next)) setPlaying(false);
+    }, PLAY_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [playing, debugAt, steps, breakpoints]);
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (debugAt === null || isTextInput(e.target) || e.ctrlKey || e.metaKey) return;
+      const to = { ArrowLeft: debugAt - 1, ArrowRight: debugAt + 1, Home: 0, End: steps }[e.key];
+      if (to === undefined) return;
+      e.preventDefault();
+      stepTo(to);
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  });
+
+  /* -------- Export helpers -------- */
+  const serializeSVG = () => {
     const svg = svgRef.current;
     if (!svg) return "";
     const cloned = svg.cloneNode(true) as SVGSVGElement;
@@ -440,6 +2474,102 @@ export default function App() {
     const can = await svgToCanvas(3);
     can.toBlob((blob) => blob && saveAs(blob, "circuit.jpg"), "image/jpeg", 0.95);
   };
+  const downloadPython = (target: PythonTarget) => {
+    const { file, generate } = PYTHON_EXPORTERS[target];
+    try {
+      const code = generate(circuit, shots);
+      saveAs(new Blob([code], { type: "text/x-python;charset=utf-8" }), file);
+    } catch (err) {
+      alert((err as Error).message);
+    }
+  };
+  /* -------- Project files -------- */
+  const projectFileRef = useRef<HTMLInputElement | null>(null);
+  const saveProject = () => {
+    const data = serializeProject({ circuit, shots, seed, theme, noise, observables });
+    saveAs(new Blob([data], { type: "application/json;charset=utf-8" }), "circuit.qcd.json");
+  };
+  const switchProject = (p: Project, meta: ProjectMeta) => {
+    resetHistory(p.circuit);
+    setShots(p.shots);
+    setSeed(p.seed ?? DEFAULT_SEED);
+    if (p.theme === "light" || p.theme === "dark") setTheme(p.theme);
+    setNoise(p.noise ?? { gate: {}, qubit: [], readout: [] });
+    setObservables(p.observables ?? []);
+    setProjectMeta(meta);
+    setSelection([]);
+    setFitKey((k) => k + 1);
+  };
+  const openProject = async (file: File) => {
+    try {
+      const p = parseProject(await file.text());
+      saveNow();
+      switchProject(p, newProjectMeta(file.name.replace(/(\.qcd)?\.json$/i, "")));
+    } catch (err) {
+      alert(`Could not open ${file.name}\n${(err as Error).message}`);
+    }
+  };
+
+  /* -------- Autosave & recent projects -------- */
+  const [autosaveError, setAutosaveError] = useState<string | null>(null);
+  const saveNow = () => {
+    // blank projects are only listed once they have content
+    if (!circuit.moments.some((m) => m.gates.length) && !recent.some((m) => m.id === projectMeta.id)) return;
+    const meta = { ...projectMeta, updated: Date.now(), thumbnail: svgThumbnail(serializeSVG()) };
+    try {
+      setRecent(storeProject(meta, { circuit, shots, seed, theme, noise, observables }));
+      setAutosaveError(null);
+    } catch (err) {
+      // most likely the storage quota; keep working and retry on the next edit
+      setAutosaveError((err as Error).message);
+    }
+  };
+  const saveNowRef = useRef(saveNow);
+  saveNowRef.current = saveNow;
+  useEffect(() => {
+    const timer = setTimeout(() => saveNowRef.current(), AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [circuit, shots, seed, noise, observables, theme, projectMeta]);
+  useEffect(() => {
+    localStorage.setItem(CURRENT_KEY, projectMeta.id);
+  }, [projectMeta.id]);
+  // flush a pending autosave when the tab is closed or reloaded
+  useEffect(() => {
+    const flush = () => saveNowRef.current();
+    window.addEventListener("pagehide", flush);
+    return () => window.removeEventListener("pagehide", flush);
+  }, []);
+
+  const newProject = () => {
+    saveNow();
+    switchProject({ circuit: emptyCircuit(2), shots: 512 }, newProjectMeta());
+  };
+  const openRecent = (meta: ProjectMeta) => {
+    const p = loadStoredProject(meta.id);
+    if (!p) {
+      alert(`"${meta.name}" could not be read and was removed from the list.`);
+      setRecent(deleteStoredProject(meta.id));
+      return;
+    }
+    saveNow();
+    switchProject(p, meta);
+  };
+  const duplicateRecent = (meta: ProjectMeta) => {
+    if (meta.id === projectMeta.id) saveNow();
+    const p = loadStoredProject(meta.id);
+    if (!p) return;
+    try {
+      setRecent(storeProject({ ...meta, id: uid(), name: `${meta.name} (copy)`, updated: Date.now() }, p));
+    } catch (err) {
+      alert(`Could not duplicate "${meta.name}"\n${(err as Error).message}`);
+    }
+  };
+  const deleteRecent = (meta: ProjectMeta) => {
+    if (!confirm(`Delete "${meta.name}"? This cannot be undone.`)) return;
+    setRecent(deleteStoredProject(meta.id));
+    if (meta.id === projectMeta.id) switchProject({ circuit: emptyCircuit(2), shots: 512 }, newProjectMeta());
+  };
+
   const downloadPDF = async () => {
     const can = await svgToCanvas(3);
     const imgData = can.toDataURL("image/png");
@@ -459,6 +2589,23 @@ export default function App() {
       <header className="row" style={{ justifyContent: "space-between", marginBottom: 12, padding: "16px 24px" }}>
         <h1 style={{ fontSize: 22, fontWeight: 700, margin: 0 }}>Quantum Circuit Designer</h1>
         <div className="row">
+          <button className="btn" onClick={() => projectFileRef.current?.click()} title="Open a saved project">
+            Open…
+          </button>
+          <button className="btn" onClick={saveProject} title="Save circuit, shots, seed, theme, noise model and observables">
+            Save
+          </button>
+          <input
+            ref={projectFileRef}
+            type="file"
+            accept=".json,application/json"
+            style={{ display: "none" }}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) openProject(file);
+              e.target.value = "";
+            }}
+          />
           <button
             className="btn btn-ghost"
             onClick={() => setTheme(theme === "light" ? "dark" : "light")}
@@ -473,7 +2620,7 @@ export default function App() {
               className="input"
               type="number"
               min={1}
-              max={12}
+              max={MAX_QUBITS}
               value={circuit.nQubits}
               onChange={(e) => setQubits(parseInt(e.target.value || "1"))}
               style={{ width: 72, marginLeft: 6 }}
@@ -492,6 +2639,26 @@ export default function App() {
               style={{ width: 96, marginLeft: 6 }}
             />
           </label>
+
+          <label title="Counts only change when the circuit, shots or seed change">
+            Seed
+            <input
+              className="input"
+              type="number"
+              min={0}
+              max={SEED_MAX}
+              value={seed}
+              onChange={(e) => setSeed(Math.min(SEED_MAX, Math.max(0, parseInt(e.target.value || "0") || 0)))}
+              style={{ width: 110, marginLeft: 6 }}
+            />
+          </label>
+          <button
+            className="btn btn-small"
+            onClick={() => setSeed(Math.floor(Math.random() * (SEED_MAX + 1)))}
+            title="Draw a new random seed"
+          >
+            Reroll
+          </button>
         </div>
       </header>
 
@@ -511,27 +2678,398 @@ export default function App() {
         <div className="stack fullpane left-pane">
           <div className="card">
             <h3 style={{ marginTop: 0 }}>Gate Palette</h3>
-            <div className="grid-2">
-              <button className="btn" onClick={() => addGate("H", 0, circuit.moments.length)}>H</button>
-              <button className="btn" onClick={() => addGate("X", 0, circuit.moments.length)}>X</button>
-              <button className="btn" onClick={() => addGate("CX", 0, circuit.moments.length, 1)}>CX</button>
-              <button className="btn" onClick={() => addGate("MEASURE", 0, circuit.moments.length)}>M</button>
-            </div>
+            {PALETTE.map((group, gi) => (
+              <div key={gi} className="grid-2" style={gi > 0 ? { marginTop: 8 } : undefined}>
+                {group.map((type) => (
+                  <button
+                    key={type}
+                    className="btn"
+                    disabled={GATE_ARITY[type] > circuit.nQubits}
+                    onClick={() => addGate(type, 0, circuit.moments.length)}
+                  >
+                    {gateName(type)}
+                  </button>
+                ))}
+              </div>
+            ))}
+            {circuit.definitions?.length ? (
+              <>
+                <div style={{ fontSize: 13, fontWeight: 600, margin: "12px 0 6px" }}>Custom gates</div>
+                <div className="stack" style={{ gap: 6 }}>
+                  {circuit.definitions.map((def) => (
+                    <div key={def.name} className="row" style={{ gap: 6, flexWrap: "nowrap" }}>
+                      <button
+                        className="btn"
+                        style={{ flex: 1 }}
+                        disabled={def.nQubits > circuit.nQubits}
+                        onClick={() => addCustomGate(def)}
+                        title={`${def.nQubits} qubit${def.nQubits === 1 ? "" : "s"}, ${def.moments.flat().length} gates`}
+                      >
+                        {def.name}
+                      </button>
+                      <button
+                        className="btn btn-small"
+                        disabled={definitionInUse(def.name)}
+                        onClick={() => deleteDefinition(def.name)}
+                        title={definitionInUse(def.name) ? "Still used in the circuit" : "Delete this definition"}
+                      >
+                        Delete
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </>
+            ) : null}
             <div style={{ marginTop: 8 }} className="row">
               <button className="btn" onClick={addMoment}>Add time step</button>
-              <button className="btn" onClick={removeLast}>Undo last</button>
+              <button className="btn" onClick={undo} disabled={historyPos === 0} title="Undo (Ctrl+Z)">Undo</button>
+              <button
+                className="btn"
+                onClick={redo}
+                disabled={historyPos === historyEntries.length}
+                title="Redo (Ctrl+Shift+Z)"
+              >
+                Redo
+              </button>
             </div>
             <p style={{ fontSize: 12, opacity: 0.8, marginTop: 8 }}>
               Tip: Press & hold a gate, then drag. It follows smoothly and snaps on drop. Use mouse wheel to zoom; scrollbars appear when zoomed.
             </p>
           </div>
 
+          <div className="card">
+            <h3 style={{ marginTop: 0 }}>Wires</h3>
+            <div className="stack" style={{ gap: 6 }}>
+              {Array.from({ length: circuit.nQubits }, (_, q) => (
+                <div key={q} className="row" style={{ gap: 6, flexWrap: "nowrap" }}>
+                  <span style={{ fontSize: 12, opacity: 0.7, width: 28 }}>{`q${q}`}</span>
+                  <input
+                    className="input"
+                    aria-label={`Name of q${q}`}
+                    placeholder={`q${q}`}
+                    value={circuit.labels?.[q] ?? ""}
+                    onChange={(e) => renameWire(q, e.target.value)}
+                    style={{ flex: 1, minWidth: 0 }}
+                  />
+                  <button
+                    className="btn btn-small"
+                    onClick={() => insertWireAt(q)}
+                    disabled={circuit.nQubits >= MAX_QUBITS}
+                    title="Insert a wire above this one"
+                  >
+                    + above
+                  </button>
+                  <button
+                    className="btn btn-small"
+                    onClick={() => deleteWireAt(q)}
+                    disabled={circuit.nQubits <= 1}
+                    title="Delete this wire and its gates"
+                  >
+                    Delete
+                  </button>
+                </div>
+              ))}
+              <button
+                className="btn"
+                onClick={() => insertWireAt(circuit.nQubits)}
+                disabled={circuit.nQubits >= MAX_QUBITS}
+              >
+                Add wire at bottom
+              </button>
+            </div>
+            <label className="row" style={{ gap: 6, fontSize: 13, marginTop: 8 }}>
+              <input type="checkbox" checked={showBloch} onChange={(e) => setShowBloch(e.target.checked)} />
+              Bloch spheres next to the labels
+            </label>
+            <p style={{ fontSize: 12, opacity: 0.8, marginBottom: 0 }}>Drag a wire label on the canvas to reorder wires.</p>
+          </div>
+
+          <div className="card">
+            <h3 style={{ marginTop: 0 }}>History</h3>
+            <ol className="history-list">
+              {[{ label: "Start" }, ...historyEntries].map((entry, k) => (
+                <li
+                  key={k}
+                  className={k === historyPos ? "current" : k > historyPos ? "undone" : undefined}
+                  onClick={() => {
+                    goToHistory(k);
+                    setSelection([]);
+                  }}
+                >
+                  {entry.label}
+                </li>
+              ))}
+            </ol>
+          </div>
+
           <div className="card">
             <h3 style={{ marginTop: 0 }}>Selection</h3>
-            <button className="btn btn-danger" onClick={deleteSelectedGate} disabled={!selected}>
+            {selectedGate && selected && GATE_PARAMS[selectedGate.type] && (
+              <ParamEditor
+                key={`${selectedGate.id}:${(selectedGate.params ?? []).join(",")}:${(selectedGate.symbols ?? []).join(",")}`}
+                gate={selectedGate}
+                onChange={(params) => setGateParams(selected.t, selectedGate, params)}
+                onBind={(i, name) => bindParam(selected.t, selectedGate, i, name)}
+              />
+            )}
+            {selectedGate && selected && selectedGate.type === "MEASURE" && (
+              <div className="row" style={{ gap: 12, marginBottom: 8, fontSize: 13 }}>
+                <label className="row" style={{ gap: 6 }}>
+                  Writes to
+                  <select
+                    className="select"
+                    value={measuredBit(selectedGate)}
+                    onChange={(e) =>
+                      updateGate("Change measured bit", selected.t, selectedGate.id, { cbit: parseInt(e.target.value) })
+                    }
+                  >
+                    {Array.from({ length: circuit.nClbits }, (_, b) => (
+                      <option key={b} value={b}>{`c${b}`}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="row" style={{ gap: 6 }} title="Measure X or Y by rotating into Z and back">
+                  Basis
+                  <select
+                    className="select"
+                    value={selectedGate.basis ?? "Z"}
+                    onChange={(e) =>
+                      updateGate("Change measurement basis", selected.t, selectedGate.id, {
+                        basis: e.target.value === "Z" ? undefined : (e.target.value as Pauli),
+                      })
+                    }
+                  >
+                    <option value="Z">Z</option>
+                    <option value="X">X</option>
+                    <option value="Y">Y</option>
+                  </select>
+                </label>
+              </div>
+            )}
+            {selectedGate && selected && (
+              <ConditionEditor
+                condition={selectedGate.condition}
+                nClbits={circuit.nClbits}
+                onChange={(condition) => updateGate("Edit condition", selected.t, selectedGate.id, { condition })}
+              />
+            )}
+            {selectedGate && selected && selectedGate.type !== "MEASURE" && (
+              <ControlsEditor
+                gate={selectedGate}
+                nQubits={circuit.nQubits}
+                onChange={(controls) =>
+                  updateGate("Edit controls", selected.t, selectedGate.id, {
+                    controls: controls.length ? controls : undefined,
+                  })
+                }
+              />
+            )}
+            {selectedGate && selected && selectedGate.type === "CUSTOM" && (
+              <div className="row" style={{ gap: 12, marginBottom: 8, fontSize: 13 }}>
+                <label className="row" style={{ gap: 6 }}>
+                  <input
+                    type="checkbox"
+                    checked={!!selectedGate.dagger}
+                    onChange={(e) =>
+                      updateGate("Toggle inverse", selected.t, selectedGate.id, { dagger: e.target.checked || undefined })
+                    }
+                  />
+                  Inverse (†)
+                </label>
+                <button
+                  className="btn btn-small"
+                  onClick={() => expandGate(selected.t, selectedGate)}
+                  title="Replace this gate by its body in new columns"
+                >
+                  Expand
+                </button>
+              </div>
+            )}
+            {selection.length > 1 && (
+              <p style={{ fontSize: 13, marginTop: 0 }}>{selection.length} gates selected</p>
+            )}
+            {selection.length > 0 && (
+              <div className="row" style={{ gap: 6, marginBottom: 8 }}>
+                <input
+                  className="input"
+                  aria-label="Custom gate name"
+                  placeholder="Gate name, e.g. QFT"
+                  value={newGateName}
+                  onChange={(e) => setNewGateName(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && newGateName.trim() && saveAsGate()}
+                  style={{ flex: 1, minWidth: 0 }}
+                />
+                <button
+                  className="btn btn-small"
+                  onClick={saveAsGate}
+                  disabled={!newGateName.trim()}
+                  title="Replace the selection by one reusable gate"
+                >
+                  Save as gate
+                </button>
+              </div>
+            )}
+            <div className="row" style={{ gap: 6, marginBottom: 8 }}>
+              <button
+                className="btn btn-small"
+                onClick={() => writeSystemClipboard(cutSelection())}
+                disabled={!selection.length}
+                title="Cut (Ctrl+X)"
+              >
+                Cut
+              </button>
+              <button
+                className="btn btn-small"
+                onClick={() => writeSystemClipboard(copySelection())}
+                disabled={!selection.length}
+                title="Copy (Ctrl+C)"
+              >
+                Copy
+              </button>
+              <button
+                className="btn btn-small"
+                onClick={() => clipboard && pasteGates("Paste", clipboard, pasteQubit)}
+                disabled={!clipboard}
+                title="Paste (Ctrl+V) in new columns after the selection"
+              >
+                Paste
+              </button>
+              <label style={{ fontSize: 12 }}>
+                at{" "}
+                <select
+                  className="select"
+                  value={Math.min(pasteQubit, circuit.nQubits - 1)}
+                  onChange={(e) => setPasteQubit(parseInt(e.target.value))}>
+                  {Array.from({ length: circuit.nQubits }, (_, q) => (
+                    <option key={q} value={q}>{circuit.labels?.[q] || `q${q}`}</option>
+                  ))}
+                </select>
+              </label>
+              <button
+                className="btn btn-small"
+                onClick={duplicateSelection}
+                disabled={!selection.length}
+                title="Duplicate (Ctrl+D)"
+              >
+                Duplicate
+              </button>
+            </div>
+            <button className="btn btn-danger" onClick={deleteSelection} disabled={!selection.length}>
               Delete selected
             </button>
-            {!selected && <p style={{ fontSize: 12, opacity: 0.7, marginTop: 8 }}>No gate selected</p>}
+            {!selection.length && (
+              <p style={{ fontSize: 12, opacity: 0.7, marginTop: 8 }}>
+                No gate selected. Shift-click or drag a rectangle on the canvas to select several.
+              </p>
+            )}
+          </div>
+
+          <div className="card">
+            <h3 style={{ marginTop: 0 }}>Layout</h3>
+            {conflicts.length ? (
+              <ul className="conflict-list">
+                {conflicts.map((cf, k) => (
+                  <li key={k} onClick={() => setSelection(cf.ids.map((id) => ({ t: cf.t, id })))} title="Select these gates">
+                    {`t${cf.t}: ${cf.message}`}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p style={{ fontSize: 12, opacity: 0.7, marginTop: 0 }}>No conflicts: every time step is a valid layer.</p>
+            )}
+            <div className="row" style={{ gap: 6, marginBottom: 8 }}>
+              <button className="btn" onClick={() => compact("asap")} title="Move every gate as early as possible">
+                Compact ASAP
+              </button>
+              <button className="btn" onClick={() => compact("alap")} title="Move every gate as late as possible">
+                Compact ALAP
+              </button>
+            </div>
+            <div className="row" style={{ gap: 6 }}>
+              <label style={{ fontSize: 13 }}>
+                Column{" "}
+                <select
+                  className="select"
+                  value={column}
+                  disabled={!circuit.moments.length}
+                  onChange={(e) => setLayoutColumn(parseInt(e.target.value))}
+                >
+                  {circuit.moments.map((m) => (
+                    <option key={m.t} value={m.t}>{`t${m.t}`}</option>
+                  ))}
+                </select>
+              </label>
+              <button className="btn btn-small" onClick={() => insertColumn(column)} disabled={!circuit.moments.length}>
+                Insert before
+              </button>
+              <button className="btn btn-small" onClick={() => deleteColumn(column)} disabled={!circuit.moments.length}>
+                Delete
+              </button>
+            </div>
+          </div>
+
+          <div className="card">
+            <h3 style={{ marginTop: 0 }}>Step-through</h3>
+            <label className="row" style={{ gap: 6, fontSize: 13, marginBottom: 8 }}>
+              <input
+                type="checkbox"
+                checked={debugOn && canDebug}
+                disabled={!canDebug}
+                onChange={(e) => {
+                  setDebugOn(e.target.checked);
+                  setPlaying(false);
+                }}
+              />
+              Show the state at the time cursor
+            </label>
+            <div className="row" style={{ gap: 6 }}>
+              <button className="btn btn-small" onClick={() => stepTo(0)} disabled={!debugOn} title="Initial state (Home)">⏮</button>
+              <button className="btn btn-small" onClick={() => stepTo(cursor - 1)} disabled={!debugOn} title="Step back (←)">◀</button>
+              <button className="btn btn-small" onClick={togglePlay} disabled={!steps} title={playing ? "Pause" : "Play"}>
+                {playing ? "⏸" : "▶"}
+              </button>
+              <button className="btn btn-small" onClick={() => stepTo(cursor + 1)} disabled={!debugOn} title="Step forward (→)">▶|</button>
+              <button className="btn btn-small" onClick={() => stepTo(steps)} disabled={!debugOn} title="Final state (End)">⏭</button>
+            </div>
+            <input
+              type="range"
+              min={0}
+              max={steps}
+              value={debugAt ?? steps}
+              disabled={!debugOn}
+              onChange={(e) => stepTo(parseInt(e.target.value))}
+              style={{ width: "100%", marginTop: 8 }}
+            />
+            {debugAt !== null && (
+              <>
+                <p style={{ fontSize: 13, margin: "4px 0 8px" }}>
+                  {debugAt === 0 ? "Initial state" : `After t${debugAt - 1}`} ({debugAt}/{steps} steps)
+                </p>
+                <div className="row" style={{ gap: 6 }}>
+                  <button
+                    className="btn btn-small"
+                    onClick={() => toggleBreakpoint(debugAt)}
+                    disabled={debugAt === 0 || debugAt >= steps}
+                    title="Pause playback before this column"
+                  >
+                    {breakpoints.includes(debugAt) ? "Remove breakpoint" : `Breakpoint before t${debugAt}`}
+                  </button>
+                  {breakpoints.length > 0 && (
+                    <button className="btn btn-small" onClick={() => setBreakpoints([])}>
+                      Clear all ({breakpoints.length})
+                    </button>
+                  )}
+                </div>
+              </>
+            )}
+            {!canDebug && (
+              <p style={{ fontSize: 12, opacity: 0.7, marginTop: 0 }}>
+                Stepping keeps a state per moment, so it is limited to {DEBUG_MAX_QUBITS} qubits.
+              </p>
+            )}
+            <p style={{ fontSize: 12, opacity: 0.8, marginBottom: 0 }}>
+              Drag the cursor on the canvas or use ← / →. Click the dot at the top of a column edge to set a breakpoint.
+            </p>
           </div>
 
           <div className="card">
@@ -542,11 +3080,141 @@ export default function App() {
               <button className="btn" onClick={downloadJPG}>JPG</button>
               <button className="btn" onClick={downloadPDF}>PDF</button>
             </div>
+            <div style={{ fontSize: 13, fontWeight: 600, margin: "10px 0 6px" }}>Python code</div>
+            <div className="grid-2">
+              {(Object.keys(PYTHON_EXPORTERS) as PythonTarget[]).map((target) => (
+                <button key={target} className="btn" onClick={() => downloadPython(target)}>
+                  {PYTHON_EXPORTERS[target].label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="card">
+            <h3 style={{ marginTop: 0 }}>OpenQASM</h3>
+            <QasmPanel
+              circuit={circuit}
+              onImport={(c) => {
+                editCircuit("Import OpenQASM", () => c);
+                setSelection([]);
+                setFitKey((k) => k + 1);
+              }}
+            />
+          </div>
+
+          <div className="card">
+            <h3 style={{ marginTop: 0 }}>Measurement (shots){stepNote}</h3>
+            {!circuit.moments.some((m) => m.gates.some((g) => g.type === "MEASURE")) && (
+              <p style={{ fontSize: 12, opacity: 0.7, marginTop: 0 }}>No measurements placed: sampling every qubit.</p>
+            )}
+            {simStatus}
+            {view && (
+              <CountsTable counts={view.counts} compare={showIdeal ? view.idealCounts : undefined} bigEndian={bigEndian} />
+            )}
+          </div>
+
+          <div className="card">
+            <h3 style={{ marginTop: 0 }}>Projects</h3>
+            <div className="row" style={{ gap: 6, marginBottom: 8 }}>
+              <input
+                className="input"
+                aria-label="Project name"
+                value={projectMeta.name}
+                onChange={(e) => setProjectMeta((m) => ({ ...m, name: e.target.value }))}
+                style={{ flex: 1, minWidth: 0 }}
+              />
+              <button className="btn" onClick={newProject}>New</button>
+            </div>
+            {autosaveError && (
+              <p style={{ fontSize: 12, color: "#ef4444", marginTop: 0 }}>
+                Autosave failed: {autosaveError}. Use Save to keep a copy of your changes.
+              </p>
+            )}
+            {recent.length === 0 ? (
+              <p style={{ fontSize: 12, opacity: 0.7, margin: 0 }}>Your work is saved in this browser automatically as you edit.</p>
+            ) : (
+              <div className="stack" style={{ gap: 8 }}>
+                {recent.map((meta) => {
+                  const open = meta.id === projectMeta.id;
+                  return (
+                    <div key={meta.id} className="row recent-item" style={{ gap: 8, flexWrap: "nowrap" }}>
+                      {meta.thumbnail ? <img className="recent-thumb" src={meta.thumbnail} alt="" /> : <div className="recent-thumb" />}
+                      <div style={{ flex: 1, minWidth: 0 }}>
+                        <div className="recent-name">{open ? `${projectMeta.name} (open)` : meta.name}</div>
+                        <div style={{ fontSize: 11, opacity: 0.7 }}>{new Date(meta.updated).toLocaleString()}</div>
+                        <div className="row" style={{ gap: 4, marginTop: 4 }}>
+                          <button className="btn btn-small" onClick={() => openRecent(meta)} disabled={open}>Open</button>
+                          <button className="btn btn-small" onClick={() => duplicateRecent(meta)}>Duplicate</button>
+                          <button className="btn btn-small btn-danger" onClick={() => deleteRecent(meta)}>Delete</button>
+                        </div>
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          <div className="card">
+            <h3 style={{ marginTop: 0 }}>Statevector{noiseActive ? " (ideal)" : ""}{stepNote}</h3>
+            {simStatus}
+            {view && (
+              <StatevectorPanel sim={view.sim} circuit={view.circuit} bigEndian={bigEndian} setBigEndian={setBigEndian} />
+            )}
+          </div>
+
+          <div className="card">
+            <h3 style={{ marginTop: 0 }}>Unitary</h3>
+            <UnitaryPanel circuit={circuit} selection={selection} />
+          </div>
+
+          <div className="card">
+            <h3 style={{ marginTop: 0 }}>Bloch spheres{noiseActive ? " (noisy)" : ""}{stepNote}</h3>
+            {simStatus}
+            {view && <BlochPanel vectors={view.bloch} circuit={view.circuit} themeKey={theme} />}
+          </div>
+
+          <div className="card">
+            <h3 style={{ marginTop: 0 }}>Observables{noiseActive ? " (noisy)" : ""}{stepNote}</h3>
+            {simStatus}
+            <ObservablesPanel
+              observables={observables}
+              setObservables={setObservables}
+              sim={view && (view.noisy ?? view.sim)}
+              circuit={view?.circuit ?? circuit}
+              shots={shots}
+              seed={seed}
+            />
+          </div>
+
+          <div className="card">
+            <h3 style={{ marginTop: 0 }}>Entanglement{noiseActive ? " (noisy)" : ""}{stepNote}</h3>
+            {simStatus}
+            {view && <EntanglementPanel sim={view.noisy ?? view.sim} circuit={view.circuit} bloch={view.bloch} />}
+          </div>
+
+          <div className="card">
+            <h3 style={{ marginTop: 0 }}>Sweeps & optimiser{noiseActive ? " (noisy)" : ""}</h3>
+            <VariationalPanel
+              circuit={circuit}
+              noise={noiseActive ? noise : undefined}
+              seed={seed}
+              observables={observables}
+              onApply={(values) => editCircuit("Apply optimised parameters", (c) => assignSymbols(c, values))}
+            />
           </div>
 
           <div className="card">
-            <h3 style={{ marginTop: 0 }}>Measurement (shots)</h3>
-            <CountsTable counts={counts} />
+            <h3 style={{ marginTop: 0 }}>Noise</h3>
+            <NoisePanel
+              noise={noise}
+              setNoise={setNoise}
+              nQubits={circuit.nQubits}
+              enabled={noiseOn}
+              setEnabled={setNoiseOn}
+              compareIdeal={compareIdeal}
+              setCompareIdeal={setCompareIdeal}
+            />
           </div>
         </div>
 
@@ -594,20 +3262,69 @@ export default function App() {
               circuit={circuit}
               themeKey={theme}
               svgRef={svgRef}
-              selected={selected}
-              onDeselect={() => setSelected(null)}
-              onSelect={(t, id) => setSelected({ t, id })}
+              selection={selection}
+              conflicts={conflicts}
+              onDeselect={() => setSelection([])}
+              onSelect={(t, id, additive) =>
+                setSelection((sel) =>
+                  !additive
+                    ? [{ t, id }]
+                    : sel.some((r) => r.id === id)
+                    ? sel.filter((r) => r.id !== id)
+                    : [...sel, { t, id }]
+                )
+              }
+              onSelectMany={(refs, additive) =>
+                setSelection((sel) => (additive ? [...sel.filter((r) => !refs.some((x) => x.id === r.id)), ...refs] : refs))
+              }
+              isPanning={() => spaceDownRef.current}
+              onMoveWire={moveWireTo}
+              bloch={showBloch ? (view?.bloch ?? []).slice(0, circuit.nQubits) : undefined}
+              cursor={debugAt ?? undefined}
+              onCursor={stepTo}
+              breakpoints={breakpoints}
+              onToggleBreakpoint={toggleBreakpoint}
               drag={drag}
               setDrag={setDrag}
-              setCircuit={setCircuit}
+              editCircuit={editCircuit}
               zoom={canvasZoom}
             />
           </div>
         </div>
 
           <div className="card chart-card">
-            <h3 style={{ marginTop: 0 }}>State Probabilities</h3>
-            <BarChart probs={probs} />
+            <div className="row" style={{ justifyContent: "space-between" }}>
+              <h3 style={{ marginTop: 0 }}>State Probabilities{noiseActive ? " (noisy)" : ""}{stepNote}</h3>
+              <div className="row" style={{ gap: 8 }}>
+                {simPending && (
+                  <span style={{ fontSize: 12, opacity: 0.7 }}>
+                    Simulating…{" "}
+                    <button className="btn btn-small" onClick={cancelSimulation}>Cancel</button>
+                  </span>
+                )}
+                {view?.sim.state && !view.noisy && <PhaseLegend />}
+              </div>
+            </div>
+            {view && (
+              <p style={{ fontSize: 12, opacity: 0.7, marginTop: 0 }}>
+                {BACKEND_LABELS[view.backend.kind]} backend: {view.backend.reason}
+              </p>
+            )}
+            {simStatus}
+            {view &&
+              (view.probs ? (
+                <BarChart
+                  probs={view.probs}
+                  compare={showIdeal ? view.idealProbs ?? undefined : undefined}
+                  state={view.noisy ? null : view.sim.state}
+                  bigEndian={bigEndian}
+                />
+              ) : (
+                <p style={{ fontSize: 12, opacity: 0.7, margin: 0 }}>
+                  {view.circuit.nQubits} qubits have too many basis states to chart; see the sampled counts under
+                  Measurement.
+                </p>
+              ))}
           </div>
         </div>
       </section>
@@ -620,20 +3337,38 @@ function CircuitSVG({
   circuit,
   themeKey,
   svgRef,
-  selected,
+  selection,
+  conflicts,
   onDeselect,
   onSelect,
+  onSelectMany,
+  isPanning,
+  onMoveWire,
+  bloch,
+  cursor,
+  onCursor,
+  breakpoints,
+  onToggleBreakpoint,
   drag,
   setDrag,
-  setCircuit,
+  editCircuit,
   zoom,
 }: {
   circuit: Circuit;
   themeKey: ThemeKey;
   svgRef: React.RefObject<SVGSVGElement | null>;
-  selected: { t: number; id: string } | null;
+  selection: GateRef[];
+  conflicts: Conflict[];
   onDeselect: () => void;
-  onSelect: (t: number, id: string) => void;
+  onSelect: (t: number, id: string, additive: boolean) => void; // additive: shift-click toggles
+  onSelectMany: (refs: GateRef[], additive: boolean) => void;
+  isPanning: () => boolean;
+  onMoveWire: (from: number, to: number) => void;
+  bloch?: Bloch[]; // drawn as small spheres left of the labels when given
+  cursor?: number; // step-through time cursor: moments applied so far (hidden when undefined)
+  onCursor: (k: number) => void;
+  breakpoints: number[];
+  onToggleBreakpoint: (k: number) => void;
   drag: null | {
     id: string;
     t: number;
@@ -641,23 +3376,27 @@ function CircuitSVG({
     targets: number[];
     dx: number;
     dy: number;
+    group: GateRef[];
     transformPx?: { tx: number; ty: number };
   };
   setDrag: React.Dispatch<React.SetStateAction<any>>;
-  setCircuit: React.Dispatch<React.SetStateAction<Circuit>>;
+  editCircuit: (label: string, update: (c: Circuit) => Circuit, key?: string) => void;
   zoom: number;
 }) {
   const T = THEMES[themeKey];
 
   const cellW = 72;
   const cellH = 56;
-  const labelW = 36;
+  const clH = 28; // classical wire rows are half height
+  const blochW = bloch ? BLOCH_W : 0;
+  const labelW = labelWidth(circuit) + blochW;
   const wires = circuit.nQubits;
   const cols = Math.max(1, circuit.moments.length || 1);
+  const clbitY = (b: number) => wires * cellH + b * clH + clH / 2;
 
   // base content size in SVG units (no padding)
   const contentW = labelW + cols * cellW;
-  const contentH = wires * cellH;
+  const contentH = wires * cellH + circuit.nClbits * clH;
 
   // scaled pixel size → drives scrollbars
   const pxW = Math.max(1, Math.round(contentW * zoom));
@@ -670,11 +3409,11 @@ function CircuitSVG({
   const holdTimerRef = useRef<number | null>(null);
   const pendingRef = useRef<
     | null
-    | { id: string; t: number; type: GateType; targets: number[]; dx: number; dy: number }
+    | { id: string; t: number; type: GateType; targets: number[]; dx: number; dy: number; group: GateRef[] }
   >(null);
 
   const startHold = (data: {
-    id: string; t: number; type: GateType; targets: number[]; dx: number; dy: number;
+    id: string; t: number; type: GateType; targets: number[]; dx: number; dy: number; group: GateRef[];
   }) => {
     pendingRef.current = data;
     if (holdTimerRef.current) clearTimeout(holdTimerRef.current);
@@ -732,56 +3471,90 @@ function CircuitSVG({
     if (!drag) return;
     const { x, y } = toLocalFromXY(clientX, clientY);
 
-    let tNew = clamp(Math.round((x - drag.dx) / cellW), 0, Math.max(0, cols - 1));
-    if (tNew >= cols) {
-      setCircuit((c) => {
-        const ms = [...c.moments];
-        ms.push({ t: ms.length, gates: [] });
-        return { ...c, moments: ms };
-      });
-      tNew = cols;
-    }
+    const tNew = clamp(Math.round((x - drag.dx) / cellW), 0, Math.max(0, cols - 1));
     const qNew = clamp(Math.round((y - drag.dy) / cellH), 0, circuit.nQubits - 1);
 
-    setCircuit((c) => {
-      const ms = c.moments.map((m) => ({ ...m, gates: [...m.gates] }));
-      const from = ms[drag.t];
-      const gIdx = from.gates.findIndex((gg) => gg.id === drag.id);
-      if (gIdx >= 0) from.gates.splice(gIdx, 1);
-
-      while (ms.length <= tNew) ms.push({ t: ms.length, gates: [] });
-      const to = ms[tNew];
-
-      if (drag.type === "CX") {
-        const diff = drag.targets[1] - drag.targets[0];
-        const qCtrl = qNew;
-        let qTgt = clamp(qCtrl + diff, 0, c.nQubits - 1);
-        if (qTgt !== qCtrl + diff) {
-          const qCtrlAdj = clamp(qTgt - diff, 0, c.nQubits - 1);
-          to.gates.push({ id: drag.id, type: "CX", targets: [qCtrlAdj, qCtrlAdj + diff] });
-        } else {
-          to.gates.push({ id: drag.id, type: "CX", targets: [qCtrl, qTgt] });
-        }
-      } else {
-        to.gates.push({ id: drag.id, type: drag.type as GateType, targets: [qNew] });
-      }
-
-      return { ...c, moments: ms };
-    });
+    // the whole group moves by the grabbed gate's offset
+    const moved = moveGates(circuit, drag.group, tNew - drag.t, qNew - drag.targets[0]);
+    if (moved.circuit !== circuit) {
+      const label = drag.group.length === 1 ? `Move ${gateName(drag.type)}` : `Move ${drag.group.length} gates`;
+      editCircuit(label, () => moved.circuit, `move:${drag.group.map((r) => r.id).join(",")}`);
+    }
 
-    onSelect(tNew, drag.id);
+    onSelectMany(moved.refs, false);
     setDrag(null);
     cancelHold();
   };
 
+  // --- rubber-band selection (drag on empty canvas; shift adds to the selection)
+  const [band, setBand] = useState<null | { x0: number; y0: number; x1: number; y1: number; additive: boolean }>(null);
+  const finishBand = () => {
+    if (!band) return;
+    setBand(null);
+    const x0 = Math.min(band.x0, band.x1), x1 = Math.max(band.x0, band.x1);
+    const y0 = Math.min(band.y0, band.y1), y1 = Math.max(band.y0, band.y1);
+    if (x1 - x0 < 4 && y1 - y0 < 4) {
+      // a plain click on empty canvas
+      if (!band.additive) onDeselect();
+      return;
+    }
+    const hits = circuit.moments.flatMap((m) =>
+      m.gates
+        .filter((g) => {
+          const qs = gateQubits(g);
+          return m.t * cellW < x1 && (m.t + 1) * cellW > x0 && Math.min(...qs) * cellH < y1 && (Math.max(...qs) + 1) * cellH > y0;
+        })
+        .map((g) => ({ t: m.t, id: g.id }))
+    );
+    onSelectMany(hits, band.additive);
+  };
+
+  // --- wire reordering: drag a qubit label up or down
+  const [wireDrag, setWireDrag] = useState<null | { from: number; y: number }>(null);
+  const wireAt = (y: number) => clamp(Math.round((y - cellH / 2) / cellH), 0, wires - 1);
+
+  // --- step-through cursor: drag it along the column edges
+  const [scrubbing, setScrubbing] = useState(false);
+
   const onMouseUpWrapper = (e: React.MouseEvent<SVGSVGElement>) => {
     if (drag) { dropAtLocal(e.clientX, e.clientY); return; }
-    if (pendingRef.current) cancelHold();
+    if (band) { finishBand(); return; }
+    if (scrubbing) { setScrubbing(false); return; }
+    if (wireDrag) {
+      onMoveWire(wireDrag.from, wireAt(wireDrag.y));
+      setWireDrag(null);
+      return;
+    }
+    const pending = pendingRef.current;
+    if (pending) {
+      cancelHold();
+      // a click (no drag) on a gate of a multi-selection narrows the selection to it
+      if (pending.group.length > 1) onSelect(pending.t, pending.id, false);
+    }
   };
   const onMouseMoveWrapper = (e: React.MouseEvent<SVGSVGElement>) => {
     if (drag) { handleDragMove(e.clientX, e.clientY); }
+    if (band) {
+      const { x, y } = toLocalFromXY(e.clientX, e.clientY);
+      setBand({ ...band, x1: x, y1: y });
+    }
+    if (wireDrag) setWireDrag({ ...wireDrag, y: toLocalFromXY(e.clientX, e.clientY).y });
+    if (scrubbing) {
+      const k = clamp(Math.round(toLocalFromXY(e.clientX, e.clientY).x / cellW), 0, circuit.moments.length);
+      if (k !== cursor) onCursor(k);
+    }
+  };
+  const onMouseDownWrapper = (e: React.MouseEvent<SVGSVGElement>) => {
+    if (e.button !== 0 || isPanning() || (e.target as Element).tagName !== "svg") return;
+    cancelHold();
+    const { x, y } = toLocalFromXY(e.clientX, e.clientY);
+    setBand({ x0: x, y0: y, x1: x, y1: y, additive: e.shiftKey });
   };
 
+  // gates grabbed together: the whole selection if the gate is part of it, else just the gate
+  const grabGroup = (t: number, id: string): GateRef[] =>
+    selection.some((r) => r.id === id) ? selection : [{ t, id }];
+
   return (
     <svg
       ref={svgRef}
@@ -790,24 +3563,52 @@ function CircuitSVG({
       height={pxH}
       style={{ background: T.bg, borderRadius: 12, touchAction: "none", display: "block" }}
       shapeRendering="geometricPrecision"
-      onClick={(e) => {
-        if ((e.target as Element).tagName === "svg") { cancelHold(); onDeselect(); }
-      }}
+      onMouseDown={onMouseDownWrapper}
       onMouseMove={onMouseMoveWrapper}
       onMouseUp={onMouseUpWrapper}
+      onMouseLeave={() => {
+        finishBand();
+        setWireDrag(null);
+        setScrubbing(false);
+      }}
     >
       {/* Qubit labels (left strip) */}
       {Array.from({ length: wires }).map((_, q) => (
         <text
           key={q}
-          x={0}
-          y={q * cellH + cellH / 2 + 5}
+          x={blochW}
+          y={(wireDrag?.from === q ? wireDrag.y : q * cellH + cellH / 2) + 5}
           textAnchor="start"
-          fill={T.label}
+          fill={wireDrag?.from === q ? T.select : T.label}
           fontSize={12}
+          style={{ letterSpacing: ".3px", cursor: wireDrag ? "grabbing" : "grab", userSelect: "none" }}
+          onMouseDown={(e) => {
+            if (e.button !== 0) return;
+            e.stopPropagation();
+            cancelHold();
+            setWireDrag({ from: q, y: q * cellH + cellH / 2 });
+          }}
+        >
+          {circuit.labels?.[q] || `q${q}`}
+        </text>
+      ))}
+      {bloch?.map((v, q) => (
+        <g key={`bloch-${q}`}>
+          <title>{blochSummary(v)}</title>
+          <BlochSphere v={v} r={BLOCH_W / 2 - 6} cx={BLOCH_W / 2 - 2} cy={q * cellH + cellH / 2} colors={T} />
+        </g>
+      ))}
+      {Array.from({ length: circuit.nClbits }).map((_, b) => (
+        <text
+          key={`c${b}`}
+          x={blochW}
+          y={clbitY(b) + 4}
+          textAnchor="start"
+          fill={T.label}
+          fontSize={11}
           style={{ letterSpacing: ".3px" }}
         >
-          {`q${q}`}
+          {`c${b}`}
         </text>
       ))}
 
@@ -835,6 +3636,14 @@ function CircuitSVG({
           />
         ))}
 
+        {/* classical wires (double lines) */}
+        {Array.from({ length: circuit.nClbits }).map((_, b) => (
+          <g key={`cw-${b}`} pointerEvents="none">
+            <line x1={0} y1={clbitY(b) - 1.5} x2={cols * cellW} y2={clbitY(b) - 1.5} stroke={T.wire} strokeWidth={1} />
+            <line x1={0} y1={clbitY(b) + 1.5} x2={cols * cellW} y2={clbitY(b) + 1.5} stroke={T.wire} strokeWidth={1} />
+          </g>
+        ))}
+
         {/* nodes (centers of columns) */}
         {(() => {
           const dots: JSX.Element[] = [];
@@ -873,9 +3682,37 @@ function CircuitSVG({
           </g>
         )}
 
+        {/* conflicting gates (see findConflicts) */}
+        {(() => {
+          const ids = new Set(conflicts.flatMap((cf) => cf.ids));
+          return circuit.moments.flatMap((m) =>
+            m.gates
+              .filter((g) => ids.has(g.id))
+              .map((g) => {
+                const qs = gateQubits(g);
+                const lo = Math.min(...qs), hi = Math.max(...qs);
+                return (
+                  <rect
+                    key={`cf-${g.id}`}
+                    x={m.t * cellW + 3}
+                    y={lo * cellH + 3}
+                    width={cellW - 6}
+                    height={(hi - lo + 1) * cellH - 6}
+                    rx={8}
+                    fill={T.conflict}
+                    fillOpacity={0.12}
+                    stroke={T.conflict}
+                    strokeDasharray="4 3"
+                    pointerEvents="none"
+                  />
+                );
+              })
+          );
+        })()}
+
         {/* gates */}
         {circuit.moments.map((m) => (
-          <g key={m.t} transform={`translate(${m.t * cellW},0)`}>
+          <g key={m.t} transform={`translate(${m.t * cellW},0)`} opacity={cursor !== undefined && m.t >= cursor ? 0.35 : 1}>
             {m.gates.map((g) => (
               <GateSVG
                 key={g.id}
@@ -883,22 +3720,104 @@ function CircuitSVG({
                 gate={g}
                 cellH={cellH}
                 cellW={cellW}
+                clbitY={clbitY}
                 colors={T}
-                selected={!!selected && selected.id === g.id && selected.t === m.t}
+                selected={selection.some((r) => r.id === g.id)}
                 onMouseDown={(evt, dx, dy) => {
                   evt.stopPropagation();
-                  onSelect(m.t, g.id);
-                  startHold({ id: g.id, t: m.t, type: g.type, targets: [...g.targets], dx, dy });
+                  if (evt.shiftKey) {
+                    onSelect(m.t, g.id, true);
+                    return;
+                  }
+                  const group = grabGroup(m.t, g.id);
+                  if (group.length === 1) onSelect(m.t, g.id, false);
+                  startHold({ id: g.id, t: m.t, type: g.type, targets: [...g.targets], dx, dy, group });
                 }}
                 onTouchStart={(evt, dx, dy) => {
-                  onSelect(m.t, g.id);
-                  startHold({ id: g.id, t: m.t, type: g.type, targets: [...g.targets], dx, dy });
+                  const group = grabGroup(m.t, g.id);
+                  if (group.length === 1) onSelect(m.t, g.id, false);
+                  startHold({ id: g.id, t: m.t, type: g.type, targets: [...g.targets], dx, dy, group });
                 }}
-                transformPx={drag && drag.id === g.id ? drag.transformPx : undefined}
+                transformPx={drag && drag.group.some((r) => r.id === g.id) ? drag.transformPx : undefined}
               />
             ))}
           </g>
         ))}
+
+        {/* drop position while reordering wires */}
+        {wireDrag && (
+          <line
+            x1={-labelW}
+            x2={cols * cellW}
+            y1={wireAt(wireDrag.y) * cellH + cellH / 2}
+            y2={wireAt(wireDrag.y) * cellH + cellH / 2}
+            stroke={T.select}
+            strokeWidth={3}
+            strokeOpacity={0.5}
+            pointerEvents="none"
+          />
+        )}
+
+        {/* step-through cursor and breakpoints (a breakpoint at k pauses before column k) */}
+        {cursor !== undefined && (
+          <g>
+            {Array.from({ length: Math.max(0, circuit.moments.length - 1) }, (_, i) => i + 1).map((k) => (
+              <circle
+                key={`bp-${k}`}
+                cx={k * cellW}
+                cy={6}
+                r={4.5}
+                fill={breakpoints.includes(k) ? T.conflict : T.bg}
+                stroke={T.conflict}
+                strokeOpacity={breakpoints.includes(k) ? 1 : 0.4}
+                style={{ cursor: "pointer" }}
+                onMouseDown={(e) => e.stopPropagation()}
+                onClick={() => onToggleBreakpoint(k)}
+              >
+                <title>{`${breakpoints.includes(k) ? "Remove breakpoint" : "Breakpoint"} before t${k}`}</title>
+              </circle>
+            ))}
+            <line
+              x1={cursor * cellW}
+              x2={cursor * cellW}
+              y1={0}
+              y2={contentH}
+              stroke={T.select}
+              strokeWidth={3}
+              pointerEvents="none"
+            />
+            <line
+              x1={cursor * cellW}
+              x2={cursor * cellW}
+              y1={14}
+              y2={contentH}
+              stroke="transparent"
+              strokeWidth={14}
+              style={{ cursor: "ew-resize" }}
+              onMouseDown={(e) => {
+                if (e.button !== 0) return;
+                e.stopPropagation();
+                cancelHold();
+                setScrubbing(true);
+              }}
+            />
+          </g>
+        )}
+
+        {/* rubber band */}
+        {band && (
+          <rect
+            x={Math.min(band.x0, band.x1)}
+            y={Math.min(band.y0, band.y1)}
+            width={Math.abs(band.x1 - band.x0)}
+            height={Math.abs(band.y1 - band.y0)}
+            fill={T.select}
+            fillOpacity={0.08}
+            stroke={T.select}
+            strokeDasharray="4 3"
+            pointerEvents="none"
+          />
+        )}
       </g>
     </svg>
   );
@@ -910,6 +3829,7 @@ const GateSVG = React.memo(function GateSVG({
   gate,
   cellH,
   cellW,
+  clbitY,
   colors,       // T
   selected,
   onMouseDown,
@@ -920,6 +3840,7 @@ const GateSVG = React.memo(function GateSVG({
   gate: Gate;
   cellH: number;
   cellW: number;
+  clbitY: (b: number) => number;
   colors: any;  // T
   selected: boolean;
   onMouseDown: (evt: React.MouseEvent, dx: number, dy: number) => void;
@@ -942,110 +3863,662 @@ const GateSVG = React.memo(function GateSVG({
   // theme palette
   const H_FILL = colors.gates.hFill;
   const H_TEXT = colors.gates.hText;
+  const ROT_FILL = colors.gates.rotFill;
+  const ROT_TEXT = colors.gates.rotText;
+  const PAULI_FILL = colors.gates.pauliFill;
+  const PAULI_TEXT = colors.gates.pauliText;
+  const PHASE_FILL = colors.gates.phaseFill;
+  const PHASE_TEXT = colors.gates.phaseText;
   const PLUS_STROKE = selected ? colors.select : colors.gates.xStroke;
   const CTRL_FILL = selected ? colors.select : colors.gates.cxControl;
   const MEAS_STROKE = selected ? colors.select : colors.gates.measureStroke;
 
-  const drawPlus = (cx: number, cy: number, r: number, sw = 2) => (
-    <>
-      <circle cx={cx} cy={cy} r={r} fill="none" stroke={PLUS_STROKE} strokeWidth={sw} />
-      <line x1={cx - r * 0.55} y1={cy} x2={cx + r * 0.55} y2={cy} stroke={PLUS_STROKE} strokeWidth={sw} />
-      <line x1={cx} y1={cy - r * 0.55} x2={cx} y2={cy + r * 0.55} stroke={PLUS_STROKE} strokeWidth={sw} />
-    </>
+  const drawPlus = (cx: number, cy: number, r: number, sw = 2) => (
+    <>
+      <circle cx={cx} cy={cy} r={r} fill="none" stroke={PLUS_STROKE} strokeWidth={sw} />
+      <line x1={cx - r * 0.55} y1={cy} x2={cx + r * 0.55} y2={cy} stroke={PLUS_STROKE} strokeWidth={sw} />
+      <line x1={cx} y1={cy - r * 0.55} x2={cx} y2={cy + r * 0.55} stroke={PLUS_STROKE} strokeWidth={sw} />
+    </>
+  );
+
+  const sw = selected ? 3 : 2;
+  const cx = xCenter;
+  const ys = gate.targets.map(yCenter);
+  const allYs = gateQubits(gate).map(yCenter);
+
+  const drawControl = (cy: number, negated = false) =>
+    negated ? (
+      <circle cx={cx} cy={cy} r={4.5} fill={colors.bg} stroke={CTRL_FILL} strokeWidth={2} />
+    ) : (
+      <circle cx={cx} cy={cy} r={4.5} fill={CTRL_FILL} />
+    );
+
+  // vertical line joining every wire of a multi-qubit gate, plus invisible grab targets;
+  // extra controls sit on the line as filled (positive) or hollow (negated) dots
+  const connector = allYs.length > 1 && (
+    <>
+      <line x1={cx} y1={Math.min(...allYs)} x2={cx} y2={Math.max(...allYs)} stroke={colors.wire} strokeWidth={2} />
+      {allYs.map((y, k) => (
+        <circle key={k} cx={cx} cy={y} r={14} fill="transparent" pointerEvents="all" />
+      ))}
+      {(gate.controls ?? []).map((ctl) => (
+        <React.Fragment key={`ctl-${ctl.qubit}`}>{drawControl(yCenter(ctl.qubit), ctl.negated)}</React.Fragment>
+      ))}
+    </>
+  );
+
+  // classical condition: double line from the gate down to the tested bits, one dot per bit
+  // (filled = must be 1, hollow = must be 0) and the compared value next to the lowest dot
+  const cond = gate.condition;
+  const condX = gate.type === "MEASURE" ? cx + 12 : cx;
+  const conditionLink = cond && cond.bits.length > 0 && (
+    <g pointerEvents="none">
+      <line x1={condX - 1.5} y1={Math.max(...allYs)} x2={condX - 1.5} y2={Math.max(...cond.bits.map(clbitY))}
+        stroke={MEAS_STROKE} strokeWidth={1} />
+      <line x1={condX + 1.5} y1={Math.max(...allYs)} x2={condX + 1.5} y2={Math.max(...cond.bits.map(clbitY))}
+        stroke={MEAS_STROKE} strokeWidth={1} />
+      {cond.bits.map((b, k) => (
+        <circle key={b} cx={condX} cy={clbitY(b)} r={4} strokeWidth={1.5} stroke={MEAS_STROKE}
+          fill={(cond.value >> k) & 1 ? MEAS_STROKE : colors.bg} />
+      ))}
+      <text x={condX + 7} y={Math.max(...cond.bits.map(clbitY)) - 5} fontSize={9} fill={colors.label}>
+        {`=${cond.value}`}
+      </text>
+    </g>
+  );
+
+  const wrap = (body: React.ReactNode) => (
+    <g
+      transform={`translate(${tx}, ${ty})`}
+      style={{ cursor: "grab", willChange: "transform" }}
+      onMouseDown={(e) => handleMouseDown(e, xCenter, cellH / 2)}
+      onTouchStart={(e) => handleTouchStart(e, xCenter, cellH / 2)}
+    >
+      {conditionLink}
+      {connector}
+      {body}
+    </g>
+  );
+  const drawSwapX = (cy: number, r = 7) => (
+    <>
+      <line x1={cx - r} y1={cy - r} x2={cx + r} y2={cy + r} stroke={PLUS_STROKE} strokeWidth={sw} />
+      <line x1={cx - r} y1={cy + r} x2={cx + r} y2={cy - r} stroke={PLUS_STROKE} strokeWidth={sw} />
+    </>
+  );
+  const drawBox = (cy: number, label: string, fill: string, text: string) => {
+    const long = label.length > 2;
+    const w = long ? Math.min(cellW - 4, Math.max(28, label.length * 6.4 + 10)) : 28;
+    const h = long ? 26 : 28;
+    const x = cx - w / 2, y = cy - h / 2;
+    return (
+      <>
+        <title>{label}</title>
+        <rect x={x} y={y} width={w} height={h} rx={4} ry={4}
+          fill={fill} stroke={selected ? colors.select : fill} strokeWidth={sw} />
+        <text x={cx} y={cy + (long ? 4 : 6)} fontSize={long ? 11 : 16} textAnchor="middle" fill={text}
+          textLength={label.length * 6.4 > w - 6 ? w - 6 : undefined} lengthAdjust="spacingAndGlyphs"
+          style={{ fontWeight: long ? 600 : 700 }}>
+          {label}
+        </text>
+      </>
+    );
+  };
+
+  switch (gate.type) {
+    case "CX":
+      return wrap(<>{drawControl(ys[0])}{drawPlus(cx, ys[1], 13, sw)}</>);
+    case "CCX":
+      return wrap(<>{drawControl(ys[0])}{drawControl(ys[1])}{drawPlus(cx, ys[2], 13, sw)}</>);
+    case "CZ":
+      return wrap(<>{drawControl(ys[0])}{drawControl(ys[1])}</>);
+    case "SWAP":
+      return wrap(<>{drawSwapX(ys[0])}{drawSwapX(ys[1])}</>);
+    case "CSWAP":
+      return wrap(<>{drawControl(ys[0])}{drawSwapX(ys[1])}{drawSwapX(ys[2])}</>);
+    case "X":
+      return wrap(
+        <>
+          <circle cx={cx} cy={ys[0]} r={18} fill="transparent" stroke="transparent" strokeWidth={18} pointerEvents="all" />
+          {drawPlus(cx, ys[0], 13, sw)}
+        </>
+      );
+    case "MEASURE": {
+      const cy = ys[0];
+      const w = 30, h = 22;
+      const x = cx - w / 2, y = cy - h / 2;
+      const yc = clbitY(measuredBit(gate));
+      return wrap(
+        <>
+          {/* double classical line down to the bit being written, ending in an arrowhead */}
+          <line x1={cx - 1.5} y1={y + h} x2={cx - 1.5} y2={yc - 5} stroke={MEAS_STROKE} strokeWidth={1} />
+          <line x1={cx + 1.5} y1={y + h} x2={cx + 1.5} y2={yc - 5} stroke={MEAS_STROKE} strokeWidth={1} />
+          <path d={`M ${cx - 4} ${yc - 6} L ${cx + 4} ${yc - 6} L ${cx} ${yc} Z`} fill={MEAS_STROKE} />
+          <rect x={x} y={y} width={w} height={h} rx={4} ry={4} fill={colors.bg} stroke={MEAS_STROKE} strokeWidth={sw} />
+          <path d={`M ${x + 4} ${cy + 6} q 6 -16 12 0 q 6 16 12 0`} fill="none" stroke={MEAS_STROKE} strokeWidth={2} />
+          {gate.basis && gate.basis !== "Z" && (
+            <text x={x + w - 3} y={y + 8} fontSize={8} fontWeight={700} textAnchor="end" fill={MEAS_STROKE}>
+              {gate.basis}
+            </text>
+          )}
+        </>
+      );
+    }
+    case "CUSTOM": {
+      // one box over every target wire; slot numbers show which wire plays which part
+      const top = Math.min(...ys) - 14, bottom = Math.max(...ys) + 14;
+      const x = 5, w = cellW - 10;
+      const label = gateText(gate);
+      return wrap(
+        <>
+          <title>{label}</title>
+          <rect x={x} y={top} width={w} height={bottom - top} rx={4} ry={4}
+            fill={ROT_FILL} stroke={selected ? colors.select : ROT_FILL} strokeWidth={sw} />
+          {ys.length > 1 && ys.map((y, k) => (
+            <text key={k} x={x + 3} y={y + 3} fontSize={8} fill={ROT_TEXT} opacity={0.8}>{k}</text>
+          ))}
+          <text x={cx} y={(top + bottom) / 2 + 4} fontSize={11} textAnchor="middle" fill={ROT_TEXT}
+            textLength={label.length * 6.4 > w - 16 ? w - 16 : undefined} lengthAdjust="spacingAndGlyphs"
+            style={{ fontWeight: 600 }}>
+            {label}
+          </text>
+        </>
+      );
+    }
+    case "H":
+      return wrap(drawBox(ys[0], "H", H_FILL, H_TEXT));
+    case "Y":
+    case "Z":
+      return wrap(drawBox(ys[0], GATE_LABEL[gate.type], PAULI_FILL, PAULI_TEXT));
+    case "S":
+    case "SDG":
+    case "T":
+    case "TDG":
+      return wrap(drawBox(ys[0], GATE_LABEL[gate.type], PHASE_FILL, PHASE_TEXT));
+    default:
+      return wrap(drawBox(ys[0], gateText(gate), ROT_FILL, ROT_TEXT));
+  }
+});
+
+/* =============== ParamEditor (angle expressions for rotation gates) =============== */
+function ParamEditor({
+  gate,
+  onChange,
+  onBind,
+}: {
+  gate: Gate;
+  onChange: (params: number[]) => void;
+  onBind: (index: number, symbol: string | null) => void;
+}) {
+  const names = GATE_PARAMS[gate.type] ?? [];
+  const values = gate.params ?? DEFAULT_PARAMS[gate.type] ?? [];
+  const [drafts, setDrafts] = useState<string[]>(() => values.map(formatAngle));
+  const [symbolDrafts, setSymbolDrafts] = useState<string[]>(() => names.map((_, i) => gate.symbols?.[i] ?? ""));
+  const [error, setError] = useState<string | null>(null);
+
+  const bind = (i: number) => {
+    const name = symbolDrafts[i].trim();
+    if (name === (gate.symbols?.[i] ?? "")) return;
+    if (name && !SYMBOL_RE.test(name)) {
+      setError(`${names[i]}: "${name}" is not a symbol name (letters, digits and _)`);
+      return;
+    }
+    setError(null);
+    onBind(i, name || null);
+  };
+
+  const commit = (i: number) => {
+    // the draft shows a rounded angle; leaving it untouched must not write the rounding back
+    if (drafts[i] === formatAngle(values[i])) {
+      setError(null);
+      return;
+    }
+    try {
+      const v = parseAngle(drafts[i].replace(/π/g, "pi"));
+      const next = [...values];
+      next[i] = v;
+      setError(null);
+      onChange(next);
+    } catch (err) {
+      setError(`${names[i]}: ${(err as Error).message}`);
+    }
+  };
+
+  return (
+    <div className="stack" style={{ gap: 6, marginBottom: 8 }}>
+      <div style={{ fontSize: 13, fontWeight: 600 }}>{gateText(gate)}</div>
+      {names.map((name, i) => (
+        <label key={name} className="row" style={{ gap: 6 }}>
+          <span style={{ width: 16 }}>{name}</span>
+          <input
+            className="input"
+            value={drafts[i] ?? ""}
+            placeholder="e.g. pi/3"
+            onChange={(e) => setDrafts((d) => d.map((v, j) => (j === i ? e.target.value : v)))}
+            onBlur={() => commit(i)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") commit(i);
+            }}
+            style={{ flex: 1, minWidth: 0 }}
+          />
+          <input
+            className="input"
+            aria-label={`Symbol for ${name}`}
+            title="Bind this angle to a named symbol shared by every gate that uses it; clear to unbind"
+            value={symbolDrafts[i] ?? ""}
+            placeholder="symbol"
+            onChange={(e) => setSymbolDrafts((d) => d.map((v, j) => (j === i ? e.target.value : v)))}
+            onBlur={() => bind(i)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") bind(i);
+            }}
+            style={{ width: 64 }}
+          />
+        </label>
+      ))}
+      {error && <p style={{ fontSize: 12, color: "#ef4444", margin: 0 }}>{error}</p>}
+    </div>
+  );
+}
+
+/* =============== ControlsEditor (extra / negated controls) =============== */
+function ControlsEditor({
+  gate,
+  nQubits,
+  onChange,
+}: {
+  gate: Gate;
+  nQubits: number;
+  onChange: (controls: Control[]) => void;
+}) {
+  const controls = gate.controls ?? [];
+  const used = new Set(gateQubits(gate));
+  const free = Array.from({ length: nQubits }, (_, q) => q).filter((q) => !used.has(q));
+  const patch = (i: number, p: Partial<Control>) =>
+    onChange(controls.map((ctl, j) => (j === i ? { ...ctl, ...p } : ctl)));
+
+  return (
+    <div className="stack" style={{ gap: 6, marginBottom: 8 }}>
+      <div style={{ fontSize: 13, fontWeight: 600 }}>Controls</div>
+      {controls.map((ctl, i) => (
+        <div key={i} className="row" style={{ gap: 6 }}>
+          <select
+            className="select"
+            value={ctl.qubit}
+            onChange={(e) => patch(i, { qubit: parseInt(e.target.value) })}
+          >
+            {[ctl.qubit, ...free].sort((a, b) => a - b).map((q) => (
+              <option key={q} value={q}>{`q${q}`}</option>
+            ))}
+          </select>
+          <label style={{ fontSize: 13 }}>
+            <input type="checkbox" checked={ctl.negated} onChange={(e) => patch(i, { negated: e.target.checked })} />{" "}
+            negated
+          </label>
+          <button className="btn" title="Remove control" onClick={() => onChange(controls.filter((_, j) => j !== i))}>
+            ✕
+          </button>
+        </div>
+      ))}
+      <button
+        className="btn"
+        disabled={free.length === 0}
+        onClick={() => onChange([...controls, { qubit: free[0], negated: false }])}
+      >
+        Add control
+      </button>
+    </div>
+  );
+}
+
+/* =============== ConditionEditor (classically-controlled gates) =============== */
+function ConditionEditor({
+  condition,
+  nClbits,
+  onChange,
+}: {
+  condition?: Condition;
+  nClbits: number;
+  onChange: (condition: Condition | undefined) => void;
+}) {
+  // "" = unconditional, "reg" = whole register, otherwise a single bit index
+  const register = Array.from({ length: nClbits }, (_, b) => b);
+  const mode = !condition
+    ? ""
+    : condition.bits.length === 1 && nClbits > 1
+    ? String(condition.bits[0])
+    : "reg";
+  const maxValue = condition ? (1 << condition.bits.length) - 1 : 0;
+
+  // a condition needs at least one bit to test
+  if (!nClbits && !condition) {
+    return (
+      <p style={{ fontSize: 12, opacity: 0.7, marginTop: 0 }}>
+        No classical bits yet: add a measurement to make gates conditional.
+      </p>
+    );
+  }
+  return (
+    <div className="stack" style={{ gap: 6, marginBottom: 8 }}>
+      <div style={{ fontSize: 13, fontWeight: 600 }}>Classical condition</div>
+      <div className="row" style={{ gap: 6 }}>
+        <span style={{ fontSize: 13 }}>if</span>
+        <select
+          className="select"
+          value={mode}
+          onChange={(e) => {
+            const v = e.target.value;
+            if (v === "" || !register.length) onChange(undefined);
+            else if (v === "reg") onChange({ bits: register, value: Math.min(condition?.value ?? 1, (1 << nClbits) - 1) });
+            else onChange({ bits: [parseInt(v)], value: 1 });
+          }}
+        >
+          <option value="">always</option>
+          <option value="reg">c (register)</option>
+          {register.length > 1 && register.map((b) => (
+            <option key={b} value={b}>{`c${b}`}</option>
+          ))}
+        </select>
+        {condition && (
+          <>
+            <span style={{ fontSize: 13 }}>==</span>
+            <input
+              className="input"
+              type="number"
+              min={0}
+              max={maxValue}
+              value={condition.value}
+              onChange={(e) => {
+                const v = parseInt(e.target.value || "0");
+                onChange({ ...condition, value: Math.max(0, Math.min(maxValue, v)) });
+              }}
+              style={{ width: 64 }}
+            />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/* =============== QasmPanel (text editor + file import/export) =============== */
+function QasmPanel({ circuit, onImport }: { circuit: Circuit; onImport: (c: Circuit) => void }) {
+  const [version, setVersion] = useState<QasmVersion>("2.0");
+  const [text, setText] = useState("");
+  const [error, setError] = useState<Error | null>(null);
+  const textRef = useRef<HTMLTextAreaElement | null>(null);
+  const fileRef = useRef<HTMLInputElement | null>(null);
+
+  // put the caret on the line/column a QasmError points at
+  const jumpTo = (err: Error, src: string) => {
+    const el = textRef.current;
+    if (!(err instanceof QasmError) || !el) return;
+    const lines = src.split("\n");
+    const offset = lines.slice(0, err.line - 1).reduce((n, l) => n + l.length + 1, 0) + err.col - 1;
+    el.focus();
+    el.setSelectionRange(offset, Math.min(src.length, offset + 1));
+  };
+
+  const fromCircuit = () => {
+    try {
+      setText(toQasm(circuit, version));
+      setError(null);
+    } catch (err) {
+      setError(err as Error);
+    }
+  };
+  const load = (src: string) => {
+    try {
+      onImport(parseQasm(src));
+      setError(null);
+    } catch (err) {
+      setError(err as Error);
+      jumpTo(err as Error, src);
+    }
+  };
+  const openFile = async (file: File) => {
+    const src = await file.text();
+    setText(src);
+    load(src);
+  };
+  const download = () => {
+    try {
+      const data = toQasm(circuit, version);
+      saveAs(new Blob([data], { type: "text/plain;charset=utf-8" }), "circuit.qasm");
+      setError(null);
+    } catch (err) {
+      setError(err as Error);
+    }
+  };
+
+  return (
+    <div className="stack" style={{ gap: 8 }}>
+      <div className="row" style={{ gap: 6 }}>
+        <select className="select" value={version} onChange={(e) => setVersion(e.target.value as QasmVersion)}>
+          <option value="2.0">OpenQASM 2.0</option>
+          <option value="3.0">OpenQASM 3.0</option>
+        </select>
+        <button className="btn" onClick={fromCircuit} title="Write the current circuit into the editor">
+          From circuit
+        </button>
+        <button className="btn" onClick={() => load(text)} disabled={!text.trim()} title="Replace the circuit">
+          Load into circuit
+        </button>
+      </div>
+      <textarea
+        ref={textRef}
+        className="input qasm-editor"
+        rows={10}
+        spellCheck={false}
+        placeholder={'OPENQASM 2.0;\ninclude "qelib1.inc";\nqreg q[2];\nh q[0];\ncx q[0], q[1];'}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+      />
+      <div className="row" style={{ gap: 6 }}>
+        <button className="btn" onClick={() => fileRef.current?.click()}>Open .qasm…</button>
+        <button className="btn" onClick={download}>Download .qasm</button>
+        <input
+          ref={fileRef}
+          type="file"
+          accept=".qasm,.txt,text/plain"
+          style={{ display: "none" }}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) openFile(file);
+            e.target.value = "";
+          }}
+        />
+      </div>
+      {error && (
+        <p
+          style={{ fontSize: 12, color: "#ef4444", margin: 0, cursor: error instanceof QasmError ? "pointer" : undefined }}
+          onClick={() => jumpTo(error, text)}
+        >
+          {error.message}
+        </p>
+      )}
+    </div>
   );
+}
 
-  // CX
-  if (gate.type === "CX") {
-    const [qc, qt] = gate.targets;
-    const cx = xCenter, cyC = yCenter(qc), cyT = yCenter(qt);
-    return (
-      <g
-        transform={`translate(${tx}, ${ty})`}
-        style={{ cursor: "grab", willChange: "transform" }}
-        onMouseDown={(e) => handleMouseDown(e, xCenter, cellH / 2)}
-        onTouchStart={(e) => handleTouchStart(e, xCenter, cellH / 2)}
-      >
-        <line x1={cx} y1={cyC} x2={cx} y2={cyT} stroke={colors.wire} strokeWidth={2} />
-        <circle cx={cx} cy={cyC} r={4.5} fill={CTRL_FILL} />
-        {drawPlus(cx, cyT, 13, selected ? 3 : 2)}
-      </g>
-    );
-  }
+/* =============== NoisePanel (per-gate-type and per-qubit error rates) =============== */
+const RATE_FIELDS: [keyof NoiseRates, string][] = [
+  ["depolarizing", "Depol."],
+  ["amplitudeDamping", "Amp."],
+  ["phaseDamping", "Phase"],
+];
 
-  // Single-qubit
-  const q = gate.targets[0];
-  const cx = xCenter;
-  const cy = yCenter(q);
+function RateInput({ value, onChange }: { value: number; onChange: (v: number) => void }) {
+  return (
+    <input
+      className="input"
+      type="number"
+      min={0}
+      max={1}
+      step={0.001}
+      value={value}
+      onChange={(e) => onChange(Math.max(0, Math.min(1, parseFloat(e.target.value || "0"))))}
+      style={{ width: 56, padding: "2px 4px" }}
+    />
+  );
+}
 
-  if (gate.type === "X") {
-    return (
-      <g
-        transform={`translate(${tx}, ${ty})`}
-        style={{ cursor: "grab", willChange: "transform" }}
-        onMouseDown={(e) => handleMouseDown(e, xCenter, cellH / 2)}
-        onTouchStart={(e) => handleTouchStart(e, xCenter, cellH / 2)}
-      >
-        <circle cx={cx} cy={cy} r={18} fill="transparent" stroke="transparent" strokeWidth={18} pointerEvents="all" />
-        {drawPlus(cx, cy, 13, selected ? 3 : 2)}
-      </g>
-    );
-  }
+function NoisePanel({
+  noise,
+  setNoise,
+  nQubits,
+  enabled,
+  setEnabled,
+  compareIdeal,
+  setCompareIdeal,
+}: {
+  noise: NoiseModel;
+  setNoise: React.Dispatch<React.SetStateAction<NoiseModel>>;
+  nQubits: number;
+  enabled: boolean;
+  setEnabled: (v: boolean) => void;
+  compareIdeal: boolean;
+  setCompareIdeal: (v: boolean) => void;
+}) {
+  const gateTypes = Object.keys(noise.gate) as GateType[];
+  const unusedTypes = (Object.keys(GATE_ARITY) as GateType[]).filter(
+    (t) => t !== "MEASURE" && t !== "CUSTOM" && !noise.gate[t]
+  );
+  const setGateRate = (type: GateType, key: keyof NoiseRates, v: number) =>
+    setNoise((n) => ({ ...n, gate: { ...n.gate, [type]: { ...(n.gate[type] ?? NO_NOISE), [key]: v } } }));
+  const removeGate = (type: GateType) =>
+    setNoise((n) => {
+      const gate = { ...n.gate };
+      delete gate[type];
+      return { ...n, gate };
+    });
+  const setQubitRate = (q: number, key: keyof NoiseRates, v: number) =>
+    setNoise((n) => {
+      const qubit = Array.from({ length: Math.max(n.qubit.length, q + 1) }, (_, i) => n.qubit[i] ?? NO_NOISE);
+      qubit[q] = { ...qubit[q], [key]: v };
+      return { ...n, qubit };
+    });
+  const setReadout = (q: number, v: number) =>
+    setNoise((n) => {
+      const readout = Array.from({ length: Math.max(n.readout.length, q + 1) }, (_, i) => n.readout[i] ?? 0);
+      readout[q] = v;
+      return { ...n, readout };
+    });
 
-  if (gate.type === "H") {
-    const w = 28, h = 28;
-    const x = cx - w / 2, y = cy - h / 2;
-    return (
-      <g
-        transform={`translate(${tx}, ${ty})`}
-        style={{ cursor: "grab", willChange: "transform" }}
-        onMouseDown={(e) => handleMouseDown(e, xCenter, cellH / 2)}
-        onTouchStart={(e) => handleTouchStart(e, xCenter, cellH / 2)}
-      >
-        <rect x={x} y={y} width={w} height={h} rx={4} ry={4}
-          fill={H_FILL} stroke={selected ? colors.select : H_FILL} strokeWidth={selected ? 3 : 2} />
-        <text x={cx} y={cy + 6} fontSize={16} textAnchor="middle" fill={H_TEXT} style={{ fontWeight: 700 }}>
-          H
-        </text>
-      </g>
-    );
-  }
+  const cell = { padding: "2px 4px" };
+  return (
+    <div className="stack" style={{ gap: 8, fontSize: 13 }}>
+      <label>
+        <input type="checkbox" checked={enabled} onChange={(e) => setEnabled(e.target.checked)} /> Simulate noise
+        (density matrix)
+      </label>
+      {enabled && nQubits > DM_MAX_QUBITS && (
+        <p style={{ fontSize: 12, color: "#ef4444", margin: 0 }}>
+          Noisy simulation supports up to {DM_MAX_QUBITS} qubits; showing ideal results.
+        </p>
+      )}
+      <label>
+        <input type="checkbox" checked={compareIdeal} onChange={(e) => setCompareIdeal(e.target.checked)} /> Show
+        ideal results side by side
+      </label>
 
-  if (gate.type === "MEASURE") {
-    const w = 30, h = 22;
-    const x = cx - w / 2, y = cy - h / 2;
-    return (
-      <g
-        transform={`translate(${tx}, ${ty})`}
-        style={{ cursor: "grab", willChange: "transform" }}
-        onMouseDown={(e) => handleMouseDown(e, xCenter, cellH / 2)}
-        onTouchStart={(e) => handleTouchStart(e, xCenter, cellH / 2)}
+      <div style={{ fontWeight: 600 }}>Per gate type</div>
+      <table style={{ borderCollapse: "collapse" }}>
+        <thead>
+          <tr>
+            <th align="left" style={cell}>Gate</th>
+            {RATE_FIELDS.map(([k, label]) => (
+              <th key={k} align="left" style={cell}>{label}</th>
+            ))}
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {gateTypes.map((type) => (
+            <tr key={type}>
+              <td style={cell}>{GATE_LABEL[type]}</td>
+              {RATE_FIELDS.map(([k]) => (
+                <td key={k} style={cell}>
+                  <RateInput value={noise.gate[type]?.[k] ?? 0} onChange={(v) => setGateRate(type, k, v)} />
+                </td>
+              ))}
+              <td style={cell}>
+                <button className="btn" title="Remove" onClick={() => removeGate(type)}>✕</button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <select
+        className="select"
+        value=""
+        onChange={(e) => e.target.value && setGateRate(e.target.value as GateType, "depolarizing", 0.01)}
       >
-        <rect x={x} y={y} width={w} height={h} rx={4} ry={4} fill="none" stroke={MEAS_STROKE} strokeWidth={selected ? 3 : 2} />
-        <path d={`M ${x + 4} ${cy + 6} q 6 -16 12 0 q 6 16 12 0`} fill="none" stroke={MEAS_STROKE} strokeWidth={2} />
-      </g>
-    );
-  }
+        <option value="">+ Add gate type…</option>
+        {unusedTypes.map((t) => (
+          <option key={t} value={t}>{GATE_LABEL[t] === "⊕" ? t : GATE_LABEL[t]}</option>
+        ))}
+      </select>
 
-  return null;
-});
+      <div style={{ fontWeight: 600 }}>Per qubit</div>
+      <table style={{ borderCollapse: "collapse" }}>
+        <thead>
+          <tr>
+            <th align="left" style={cell}>Qubit</th>
+            {RATE_FIELDS.map(([k, label]) => (
+              <th key={k} align="left" style={cell}>{label}</th>
+            ))}
+            <th align="left" style={cell}>Readout</th>
+          </tr>
+        </thead>
+        <tbody>
+          {Array.from({ length: nQubits }, (_, q) => (
+            <tr key={q}>
+              <td style={cell}>{`q${q}`}</td>
+              {RATE_FIELDS.map(([k]) => (
+                <td key={k} style={cell}>
+                  <RateInput value={noise.qubit[q]?.[k] ?? 0} onChange={(v) => setQubitRate(q, k, v)} />
+                </td>
+              ))}
+              <td style={cell}>
+                <RateInput value={noise.readout[q] ?? 0} onChange={(v) => setReadout(q, v)} />
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
 
 /* ================= Counts & Chart ================= */
-function CountsTable({ counts }: { counts: Record<string, number> }) {
-  const rows = Object.entries(counts).sort((a, b) => b[1] - a[1]);
+// Keys are c[n-1]…c[0]; bigEndian shows them with c0 leftmost, like the amplitude labels.
+function CountsTable({
+  counts,
+  compare,
+  bigEndian = false,
+}: {
+  counts: Record<string, number>;
+  compare?: Record<string, number>;
+  bigEndian?: boolean;
+}) {
+  const keys = new Set([...Object.keys(counts), ...Object.keys(compare ?? {})]);
+  const rows = [...keys].map((k) => [k, counts[k] ?? 0] as const).sort((a, b) => b[1] - a[1]);
   return (
     <div style={{ maxHeight: 220, overflow: "auto" }}>
       <table style={{ width: "100%", borderCollapse: "collapse" }}>
         <thead>
           <tr>
             <th align="left">Bitstring</th>
-            <th align="right">Counts</th>
+            <th align="right">{compare ? "Noisy" : "Counts"}</th>
+            {compare && <th align="right">Ideal</th>}
           </tr>
         </thead>
         <tbody>
           {rows.map(([k, v]) => (
             <tr key={k}>
-              <td>{k}</td>
+              <td>{bigEndian ? [...k].reverse().join("") : k}</td>
               <td align="right">{v}</td>
+              {compare && <td align="right">{compare[k] ?? 0}</td>}
             </tr>
           ))}
         </tbody>
@@ -1054,25 +4527,967 @@ function CountsTable({ counts }: { counts: Record<string, number> }) {
   );
 }
 
-function BarChart({ probs }: { probs: number[] }) {
-  const max = Math.max(1e-9, ...probs);
-  const labels = probs.map((_, i) => i.toString(2).padStart(Math.log2(probs.length), "0"));
+/* =============== Bloch sphere (SVG, oblique projection) =============== */
+const BLOCH_W = 52; // extra label-strip width when spheres are drawn on the canvas
+const BLOCH_AZIMUTH = Math.PI / 6;
+const BLOCH_ELEVATION = Math.PI / 9;
+
+// Project a point on the unit sphere to screen offsets (y down) plus its depth toward the viewer.
+function projectBloch(v: Bloch) {
+  const ca = Math.cos(BLOCH_AZIMUTH), sa = Math.sin(BLOCH_AZIMUTH);
+  const ce = Math.cos(BLOCH_ELEVATION), se = Math.sin(BLOCH_ELEVATION);
+  return {
+    x: -sa * v.x + ca * v.y,
+    y: -(-se * ca * v.x - se * sa * v.y + ce * v.z),
+    depth: ce * ca * v.x + ce * sa * v.y + se * v.z,
+  };
+}
+
+function BlochSphere({
+  v,
+  r,
+  cx,
+  cy,
+  colors,
+  axisLabels = false,
+}: {
+  v: Bloch;
+  r: number;
+  cx: number;
+  cy: number;
+  colors: { wire: string; label: string; select: string };
+  axisLabels?: boolean;
+}) {
+  const p = projectBloch(v);
+  const axes: [Bloch, string][] = [
+    [{ x: 1, y: 0, z: 0 }, "x"],
+    [{ x: 0, y: 1, z: 0 }, "y"],
+    [{ x: 0, y: 0, z: 1 }, "|0⟩"],
+    [{ x: 0, y: 0, z: -1 }, "|1⟩"],
+  ];
+  const len = Math.hypot(v.x, v.y, v.z);
+  return (
+    <g pointerEvents="none">
+      <circle cx={cx} cy={cy} r={r} fill={colors.select} fillOpacity={0.05} stroke={colors.wire} strokeWidth={1} />
+      <ellipse
+        cx={cx}
+        cy={cy}
+        rx={r}
+        ry={r * Math.sin(BLOCH_ELEVATION)}
+        fill="none"
+        stroke={colors.wire}
+        strokeWidth={0.75}
+        strokeDasharray="2 2"
+      />
+      {axes.map(([a, name]) => {
+        const e = projectBloch(a);
+        return (
+          <g key={name}>
+            <line x1={cx} y1={cy} x2={cx + e.x * r} y2={cy + e.y * r} stroke={colors.wire} strokeWidth={0.75} strokeOpacity={0.6} />
+            {axisLabels && (
+              <text x={cx + e.x * r * 1.18} y={cy + e.y * r * 1.18 + 3} fontSize={9} textAnchor="middle" fill={colors.label}>
+                {name}
+              </text>
+            )}
+          </g>
+        );
+      })}
+      {len > 1e-6 && (
+        <>
+          <line
+            x1={cx}
+            y1={cy}
+            x2={cx + p.x * r}
+            y2={cy + p.y * r}
+            stroke={colors.select}
+            strokeWidth={2}
+            strokeOpacity={p.depth < 0 ? 0.5 : 1}
+          />
+          <circle cx={cx + p.x * r} cy={cy + p.y * r} r={Math.max(2, r / 12)} fill={colors.select} fillOpacity={p.depth < 0 ? 0.5 : 1} />
+        </>
+      )}
+    </g>
+  );
+}
+
+const blochSummary = (v: Bloch) =>
+  `⟨X⟩ ${v.x.toFixed(3)}  ⟨Y⟩ ${v.y.toFixed(3)}  ⟨Z⟩ ${v.z.toFixed(3)}  purity ${blochPurity(v).toFixed(3)}`;
+
+function BlochPanel({ vectors, circuit, themeKey }: { vectors: Bloch[]; circuit: Circuit; themeKey: ThemeKey }) {
+  const T = THEMES[themeKey];
+  const r = 40;
   return (
-    <div
-      style={{
-        display: "grid",
-        gridTemplateColumns: `repeat(${probs.length}, 1fr)`,
-        gap: 6,
-        alignItems: "end",
-        height: 180,
-      }}
-    >
-      {probs.map((p, i) => (
-        <div key={i} title={`${labels[i]}: ${(p * 100).toFixed(2)}%`}>
-          <div className="bar" style={{ height: `${(p / max) * 160}px` }} />
-          <div style={{ textAlign: "center", fontSize: 12, marginTop: 4 }}>{labels[i]}</div>
+    <div className="grid-2">
+      {vectors.map((v, q) => (
+        <div key={q} style={{ textAlign: "center", fontSize: 12 }}>
+          <div style={{ fontWeight: 600 }}>{wireName(circuit, q)}</div>
+          <svg width={2 * r + 24} height={2 * r + 24} style={{ display: "block", margin: "0 auto" }}>
+            <BlochSphere v={v} r={r} cx={r + 12} cy={r + 12} colors={T} axisLabels />
+          </svg>
+          <div style={{ fontFamily: "monospace", fontSize: 11, lineHeight: 1.4 }}>
+            <div>{`⟨X⟩ ${v.x.toFixed(3)}`}</div>
+            <div>{`⟨Y⟩ ${v.y.toFixed(3)}`}</div>
+            <div>{`⟨Z⟩ ${v.z.toFixed(3)}`}</div>
+            <div>{`purity ${blochPurity(v).toFixed(3)}`}</div>
+          </div>
         </div>
       ))}
     </div>
   );
-}
\ No newline at end of file
+}
+
+/* =============== Observables (Pauli sums) =============== */
+/**
+ * Exact ⟨O⟩ and a shot estimate: each term is measured on its own, `shots` ±1 outcomes drawn
+ * with P(+1) = (1 + ⟨P⟩·Π(1 − 2e_q))/2, where e_q is qubit q's readout error. The standard
+ * error combines the per-term binomial errors √((1 − m²)/shots).
+ */
+function evaluateObservable(terms: PauliTerm[], sim: SimResult, nQubits: number, shots: number, random: Random) {
+  let exact = 0, estimate = 0, variance = 0;
+  for (const { coeff, ops } of terms) {
+    if (!ops.length) {
+      exact += coeff;
+      estimate += coeff;
+      continue;
+    }
+    const e = expectation(sim, nQubits, ops);
+    const damp = ops.reduce((acc, o) => acc * (1 - 2 * sim.readoutError[o.qubit]), 1);
+    const pPlus = (1 + e * damp) / 2;
+    let plus = 0;
+    for (let k = 0; k < shots; k++) if (random() < pPlus) plus++;
+    const m = (2 * plus - shots) / shots;
+    exact += coeff * e;
+    estimate += coeff * m;
+    variance += (coeff * coeff * (1 - m * m)) / shots;
+  }
+  return { exact, estimate, sigma: Math.sqrt(variance) };
+}
+
+type ObservableRow = { text: string } & ({ exact: number; estimate: number; sigma: number } | { error: string });
+
+function ObservablesPanel({
+  observables,
+  setObservables,
+  sim,
+  circuit,
+  shots,
+  seed,
+}: {
+  observables: string[];
+  setObservables: (v: string[]) => void;
+  sim: SimResult | null;
+  circuit: Circuit;
+  shots: number;
+  seed: number;
+}) {
+  const rows = useMemo(() => {
+    if (!sim) return [];
+    return observables.flatMap((text, k): ObservableRow[] => {
+      if (!text.trim()) return [];
+      try {
+        const terms = parseObservable(text, circuit.nQubits);
+        // one stream per line, so editing a line leaves the other estimates alone
+        return [{ text, ...evaluateObservable(terms, sim, circuit.nQubits, shots, seededRandom(seed + k)) }];
+      } catch (err) {
+        return [{ text, error: (err as Error).message }];
+      }
+    });
+  }, [observables, sim, circuit.nQubits, shots, seed]);
+  const rotated = circuit.moments.some((m) => m.gates.some((g) => g.type === "MEASURE" && g.basis && g.basis !== "Z"));
+
+  return (
+    <div className="stack" style={{ gap: 8 }}>
+      <textarea
+        className="input qasm-editor"
+        rows={3}
+        aria-label="Observables, one per line"
+        placeholder={"One observable per line, e.g.\nZ0 Z1\n0.5 X0 X1 - 0.5 Y0 Y1\nZZ + 1"}
+        value={observables.join("\n")}
+        onChange={(e) => setObservables(e.target.value.split("\n"))}
+      />
+      {rotated && (
+        <p style={{ fontSize: 12, opacity: 0.7, margin: 0 }}>
+          X/Y measurements at the end of a wire leave it rotated, so their Pauli reads as Z there.
+        </p>
+      )}
+      {rows.length > 0 && (
+        <table style={{ fontSize: 12, borderCollapse: "collapse", width: "100%" }}>
+          <thead>
+            <tr style={{ textAlign: "left" }}>
+              <th>Observable</th>
+              <th>Exact</th>
+              <th title={`${shots} shots per term`}>Estimate ± σ</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((r, k) => (
+              <tr key={k}>
+                <td style={{ fontFamily: "monospace" }}>{r.text.trim()}</td>
+                {"error" in r ? (
+                  <td colSpan={2} style={{ color: "#ef4444" }}>{r.error}</td>
+                ) : (
+                  <>
+                    <td style={{ fontFamily: "monospace" }}>{r.exact.toFixed(4)}</td>
+                    <td style={{ fontFamily: "monospace" }}>{`${r.estimate.toFixed(4)} ± ${r.sigma.toFixed(4)}`}</td>
+                  </>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+/* =============== Entanglement metrics =============== */
+const CONCURRENCE_TABLE_MAX = 8; // larger registers skip the all-pairs table
+const SCHMIDT_SHOWN = 16;
+
+function EntanglementPanel({ sim, circuit, bloch }: { sim: SimResult; circuit: Circuit; bloch: Bloch[] }) {
+  const n = circuit.nQubits;
+  const [sideChoice, setSide] = useState<number[]>([0]);
+  const side = sideChoice.filter((q) => q < n);
+  const sideKey = side.join(",");
+  const entropy = useMemo(() => {
+    try {
+      return subsystemEntropy(sim, n, sideKey ? sideKey.split(",").map(Number) : []);
+    } catch (err) {
+      return (err as Error).message;
+    }
+  }, [sim, n, sideKey]);
+  const pairs = useMemo(() => {
+    if (n < 2 || n > CONCURRENCE_TABLE_MAX) return null;
+    return wireRange(n).map((a) => wireRange(n).map((b) => (a < b ? concurrence(sim, n, a, b) : null)));
+  }, [sim, n]);
+  const mixed = sim.branches.length > 1 || sim.backend.kind === "density-matrix";
+  const cell = { padding: "2px 6px", textAlign: "right" as const, fontFamily: "monospace" };
+
+  return (
+    <div className="stack" style={{ gap: 10, fontSize: 13 }}>
+      <div>
+        <div style={{ fontWeight: 600, marginBottom: 4 }}>Bipartition: side A</div>
+        <div className="row" style={{ gap: 8 }}>
+          {wireRange(n).map((q) => (
+            <label key={q} style={{ fontSize: 12 }}>
+              <input
+                type="checkbox"
+                checked={side.includes(q)}
+                onChange={(e) => setSide(e.target.checked ? [...side, q].sort((a, b) => a - b) : side.filter((x) => x !== q))}
+              />{" "}
+              {wireName(circuit, q)}
+            </label>
+          ))}
+        </div>
+        {typeof entropy === "string" ? (
+          <p style={{ fontSize: 12, color: "#ef4444", margin: "6px 0 0" }}>{entropy}</p>
+        ) : (
+          <div style={{ fontFamily: "monospace", fontSize: 12, marginTop: 6, lineHeight: 1.5 }}>
+            <div>{`S(A) = ${entropy.entropy.toFixed(4)} bits   Tr ρ_A² = ${entropy.purity.toFixed(4)}`}</div>
+            {entropy.schmidt && (
+              <div>
+                {`Schmidt rank ${entropy.schmidtRank}: `}
+                {entropy.schmidt.slice(0, SCHMIDT_SHOWN).map((x) => x.toFixed(4)).join(", ")}
+                {entropy.schmidtRank! > SCHMIDT_SHOWN ? ", …" : ""}
+              </div>
+            )}
+          </div>
+        )}
+        {mixed && (
+          <p style={{ fontSize: 12, opacity: 0.7, margin: "6px 0 0" }}>
+            The state is mixed (noise or mid-circuit measurement), so S(A) also counts classical uncertainty and
+            there is no Schmidt decomposition.
+          </p>
+        )}
+      </div>
+      <div>
+        <div style={{ fontWeight: 600, marginBottom: 4 }}>Qubit purity Tr ρ²</div>
+        <div className="row" style={{ gap: 10, fontFamily: "monospace", fontSize: 12 }}>
+          {bloch.map((v, q) => (
+            <span key={q}>{`${wireName(circuit, q)} ${blochPurity(v).toFixed(3)}`}</span>
+          ))}
+        </div>
+      </div>
+      <div>
+        <div style={{ fontWeight: 600, marginBottom: 4 }}>Concurrence</div>
+        {pairs ? (
+          <table style={{ borderCollapse: "collapse", fontSize: 12 }}>
+            <thead>
+              <tr>
+                <th />
+                {wireRange(n).slice(1).map((b) => (
+                  <th key={b} style={cell}>{wireName(circuit, b)}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {wireRange(n).slice(0, -1).map((a) => (
+                <tr key={a}>
+                  <th style={{ ...cell, textAlign: "left" }}>{wireName(circuit, a)}</th>
+                  {wireRange(n).slice(1).map((b) => {
+                    const c = pairs[a][b];
+                    return (
+                      <td key={b} style={{ ...cell, background: c === null ? undefined : `rgba(96, 165, 250, ${c})` }}>
+                        {c === null ? "" : c.toFixed(3)}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <p style={{ fontSize: 12, opacity: 0.7, margin: 0 }}>
+            {n < 2 ? "Needs at least two qubits." : `The pairwise table covers registers of up to ${CONCURRENCE_TABLE_MAX} qubits.`}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/* =============== Parameter sweeps & optimiser =============== */
+const newVariationalWorker = () => new Worker(new URL("./variationalWorker.ts", import.meta.url), { type: "module" });
+const SWEEP_MAX_STEPS = 400;
+const OPTIMIZER_MAX_ITER = 2000;
+
+type VariationalPoint = { x: number; y: number; values?: Record<string, number> };
+type VariationalJob = { job: VariationalRequest["job"]; points: VariationalPoint[]; running: boolean; error: string | null };
+
+/**
+ * Runs one sweep or optimisation at a time in its own worker, collecting the streamed points.
+ * Starting another job or stopping terminates the worker; `onDone` sees every point.
+ */
+function useVariationalJob() {
+  const workerRef = useRef<Worker | null>(null);
+  const [job, setJob] = useState<VariationalJob | null>(null);
+
+  const stop = () => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+    setJob((j) => j && { ...j, running: false });
+  };
+  const start = (request: Omit<VariationalRequest, "id">, onDone?: (points: VariationalPoint[]) => void) => {
+    workerRef.current?.terminate();
+    const worker = newVariationalWorker();
+    const points: VariationalPoint[] = [];
+    worker.onmessage = (e: MessageEvent<VariationalMessage>) => {
+      const msg = e.data;
+      if (msg.kind === "point") {
+        points.push({ x: msg.x, y: msg.y, values: msg.values });
+        setJob((j) => j && { ...j, points: points.slice() });
+        return;
+      }
+      worker.terminate();
+      workerRef.current = null;
+      setJob((j) => j && { ...j, running: false, error: msg.kind === "error" ? msg.error : null });
+      if (msg.kind === "done") onDone?.(points);
+    };
+    // a worker that dies outside runVariational's try never posts "error" itself
+    const fail = (error: string) => {
+      if (workerRef.current !== worker) return;
+      worker.terminate();
+      workerRef.current = null;
+      setJob((j) => j && { ...j, running: false, error });
+    };
+    worker.onerror = (e) => {
+      e.preventDefault();
+      fail(e.message || "The optimiser worker stopped unexpectedly");
+    };
+    worker.onmessageerror = () => fail("An optimiser result could not be received");
+    workerRef.current = worker;
+    setJob({ job: request.job, points: [], running: true, error: null });
+    worker.postMessage({ ...request, id: 1 });
+  };
+  useEffect(() => () => workerRef.current?.terminate(), []);
+
+  return { job, start, stop };
+}
+
+const bestPoint = (points: VariationalPoint[]) =>
+  points.reduce<VariationalPoint | null>((best, p) => (!best || p.y < best.y ? p : best), null);
+
+// Minimal SVG line chart with the data range printed on each axis.
+function LinePlot({ points, xLabel, yLabel }: { points: VariationalPoint[]; xLabel: string; yLabel: string }) {
+  const W = 300, H = 150, left = 44, bottom = 28, top = 8, right = 8;
+  if (!points.length) return null;
+  const xs = points.map((p) => p.x), ys = points.map((p) => p.y);
+  let [x0, x1, y0, y1] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+  if (x1 - x0 < 1e-12) [x0, x1] = [x0 - 1, x1 + 1];
+  if (y1 - y0 < 1e-12) [y0, y1] = [y0 - 0.5, y1 + 0.5];
+  const px = (x: number) => left + ((x - x0) / (x1 - x0)) * (W - left - right);
+  const py = (y: number) => top + ((y1 - y) / (y1 - y0)) * (H - top - bottom);
+  const label = (v: number) => +v.toPrecision(3) + "";
+  return (
+    <svg width={W} height={H} style={{ display: "block", fontSize: 10 }}>
+      <rect x={left} y={top} width={W - left - right} height={H - top - bottom} fill="none" stroke="currentColor" opacity={0.3} />
+      {y0 < 0 && y1 > 0 && (
+        <line x1={left} x2={W - right} y1={py(0)} y2={py(0)} stroke="currentColor" opacity={0.2} strokeDasharray="3 3" />
+      )}
+      <polyline points={points.map((p) => `${px(p.x)},${py(p.y)}`).join(" ")} fill="none" stroke="#60a5fa" strokeWidth={1.5} />
+      {points.length <= 60 && points.map((p, k) => <circle key={k} cx={px(p.x)} cy={py(p.y)} r={2} fill="#60a5fa" />)}
+      <text x={left - 4} y={top + 8} textAnchor="end" fill="currentColor">{label(y1)}</text>
+      <text x={left - 4} y={H - bottom} textAnchor="end" fill="currentColor">{label(y0)}</text>
+      <text x={left} y={H - bottom + 12} fill="currentColor">{label(x0)}</text>
+      <text x={W - right} y={H - bottom + 12} textAnchor="end" fill="currentColor">{label(x1)}</text>
+      <text x={(left + W - right) / 2} y={H - 4} textAnchor="middle" fill="currentColor">{xLabel}</text>
+      <text x={10} y={(top + H - bottom) / 2} textAnchor="middle" fill="currentColor" transform={`rotate(-90 10 ${(top + H - bottom) / 2})`}>
+        {yLabel}
+      </text>
+    </svg>
+  );
+}
+
+function VariationalPanel({
+  circuit,
+  noise,
+  seed,
+  observables,
+  onApply,
+}: {
+  circuit: Circuit;
+  noise?: NoiseModel;
+  seed: number;
+  observables: string[];
+  onApply: (values: Record<string, number>) => void;
+}) {
+  const n = circuit.nQubits;
+  const symbols = useMemo(() => circuitSymbols(circuit), [circuit]);
+  const names = [...symbols.keys()];
+  const lines = observables.flatMap((text, k) => (text.trim() ? [{ key: `obs:${k}`, text: text.trim() }] : []));
+  const [targetKey, setTargetKey] = useState("");
+  const [bits, setBits] = useState("");
+  const [sweepSymbol, setSweepSymbol] = useState("");
+  const [range, setRange] = useState({ from: "0", to: "2pi", steps: 41 });
+  const [method, setMethod] = useState<OptimizerMethod>("nelder-mead");
+  const [maxIter, setMaxIter] = useState(100);
+  const [error, setError] = useState<string | null>(null);
+  const { job, start, stop } = useVariationalJob();
+
+  // fall back to the first choice when the stored one disappears (e.g. an observable was deleted)
+  const target = targetKey === "prob" || lines.some((l) => l.key === targetKey) ? targetKey : lines[0]?.key ?? "prob";
+  const symbol = names.includes(sweepSymbol) ? sweepSymbol : names[0];
+  const targetLabel = target === "prob" ? `P(|${bits || "…"}⟩)` : `⟨${lines.find((l) => l.key === target)?.text}⟩`;
+
+  const buildTarget = (): Target => {
+    if (target !== "prob") return { kind: "observable", terms: parseObservable(observables[Number(target.slice(4))], n) };
+    if (!/^[01]+$/.test(bits) || bits.length !== n) throw new Error(`P(|…⟩) needs a bitstring of ${n} bits, q0 last`);
+    return { kind: "probability", index: parseInt(bits, 2) };
+  };
+  const run = (request: () => Omit<VariationalRequest, "id">, onDone?: (points: VariationalPoint[]) => void) => {
+    try {
+      const req = request();
+      setError(null);
+      start(req, onDone);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+  const runSweep = () =>
+    run(() => ({
+      circuit,
+      noise,
+      seed,
+      target: buildTarget(),
+      job: "sweep",
+      symbol,
+      from: parseAngle(range.from.replace(/π/g, "pi")),
+      to: parseAngle(range.to.replace(/π/g, "pi")),
+      steps: range.steps,
+    }));
+  const runOptimizer = () =>
+    run(
+      () => ({ circuit, noise, seed, target: buildTarget(), job: "optimize", method, symbols: names, maxIter }),
+      (points) => {
+        const best = bestPoint(points);
+        if (best?.values) onApply(best.values);
+      }
+    );
+
+  if (!names.length) {
+    return (
+      <p style={{ fontSize: 12, opacity: 0.7, margin: 0 }}>
+        Bind a rotation angle to a symbol (θ, φ, …) in the Selection card to sweep or optimise it.
+      </p>
+    );
+  }
+  const best = job?.job === "optimize" ? bestPoint(job.points) : null;
+  return (
+    <div className="stack" style={{ gap: 10, fontSize: 13 }}>
+      <div style={{ fontFamily: "monospace", fontSize: 12 }}>
+        {names.map((name) => `${name} = ${formatAngle(symbols.get(name)!)}`).join("   ")}
+      </div>
+      <label className="row" style={{ gap: 6 }}>
+        Target
+        <select className="select" value={target} onChange={(e) => setTargetKey(e.target.value)}>
+          {lines.map((l) => (
+            <option key={l.key} value={l.key}>{`⟨${l.text}⟩`}</option>
+          ))}
+          <option value="prob">P(basis state)</option>
+        </select>
+        {target === "prob" && (
+          <input
+            className="input"
+            aria-label="Basis state, q0 last"
+            placeholder={"0".repeat(Math.min(n, 8))}
+            value={bits}
+            onChange={(e) => setBits(e.target.value.trim())}
+            style={{ width: 90, fontFamily: "monospace" }}
+          />
+        )}
+      </label>
+      {!lines.length && (
+        <p style={{ fontSize: 12, opacity: 0.7, margin: 0 }}>Observables typed in the Observables card can be targets too.</p>
+      )}
+
+      <div className="row" style={{ gap: 6 }}>
+        <b>Sweep</b>
+        <select className="select" value={symbol} onChange={(e) => setSweepSymbol(e.target.value)}>
+          {names.map((name) => (
+            <option key={name} value={name}>{name}</option>
+          ))}
+        </select>
+        from
+        <input className="input" value={range.from} onChange={(e) => setRange({ ...range, from: e.target.value })} style={{ width: 50 }} />
+        to
+        <input className="input" value={range.to} onChange={(e) => setRange({ ...range, to: e.target.value })} style={{ width: 50 }} />
+        <input
+          className="input"
+          type="number"
+          min={2}
+          max={SWEEP_MAX_STEPS}
+          aria-label="Sweep points"
+          title="Number of points"
+          value={range.steps}
+          onChange={(e) => setRange({ ...range, steps: Math.min(SWEEP_MAX_STEPS, Math.max(2, parseInt(e.target.value) || 2)) })}
+          style={{ width: 56 }}
+        />
+        <button className="btn btn-small" onClick={runSweep} disabled={job?.running}>Run</button>
+      </div>
+
+      <div className="row" style={{ gap: 6 }}>
+        <b>Minimise</b>
+        <select className="select" value={method} onChange={(e) => setMethod(e.target.value as OptimizerMethod)}>
+          <option value="nelder-mead">Nelder–Mead</option>
+          <option value="spsa">SPSA</option>
+        </select>
+        <input
+          className="input"
+          type="number"
+          min={1}
+          max={OPTIMIZER_MAX_ITER}
+          aria-label="Iterations"
+          title="Maximum iterations"
+          value={maxIter}
+          onChange={(e) => setMaxIter(Math.min(OPTIMIZER_MAX_ITER, Math.max(1, parseInt(e.target.value) || 1)))}
+          style={{ width: 64 }}
+        />
+        <button className="btn btn-small" onClick={runOptimizer} disabled={job?.running}>Run</button>
+      </div>
+
+      {error && <p style={{ fontSize: 12, color: "#ef4444", margin: 0 }}>{error}</p>}
+      {job && (
+        <div className="stack" style={{ gap: 6 }}>
+          <div className="row" style={{ gap: 6, fontSize: 12 }}>
+            {job.running ? (
+              <>
+                <span style={{ opacity: 0.7 }}>{job.job === "sweep" ? "Sweeping" : "Optimising"}… {job.points.length}</span>
+                <button className="btn btn-small" onClick={stop}>Stop</button>
+              </>
+            ) : (
+              job.error && <span style={{ color: "#ef4444" }}>{job.error}</span>
+            )}
+          </div>
+          <LinePlot
+            points={job.points}
+            xLabel={job.job === "sweep" ? symbol : "iteration"}
+            yLabel={targetLabel}
+          />
+          {best?.values && (
+            <div className="row" style={{ gap: 6, fontSize: 12 }}>
+              <span style={{ fontFamily: "monospace" }}>
+                {`best ${best.y.toFixed(6)} at ${Object.entries(best.values).map(([k, v]) => `${k} = ${v.toFixed(4)}`).join(", ")}`}
+              </span>
+              {!job.running && (
+                <button className="btn btn-small" onClick={() => onApply(best.values!)} title="Write these values into the circuit">
+                  Apply
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/* =============== Unitary view (heatmap, exact entries, copy as NumPy / LaTeX / CSV) =============== */
+const HEATMAP_PX = 256;
+const UNITARY_TABLE_MAX = 8; // matrices up to this size are also listed entry by entry
+
+function UnitaryPanel({ circuit, selection }: { circuit: Circuit; selection: GateRef[] }) {
+  const last = circuit.moments.length - 1;
+  const [range, setRange] = useState<[number, number] | null>(null); // null: every moment
+  const from = range ? Math.min(range[0], last) : 0;
+  const to = range ? Math.min(range[1], last) : last;
+  const [exact, setExact] = useState(true);
+  const [hover, setHover] = useState<[number, number] | null>(null);
+  const [copied, setCopied] = useState<string | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+  const result = useMemo(() => {
+    try {
+      return { U: circuitUnitary(circuit, from, to), error: null };
+    } catch (err) {
+      return { U: null, error: (err as Error).message };
+    }
+  }, [circuit, from, to]);
+  const U = result.U;
+  const N = U?.length ?? 0;
+
+  // magnitude as opacity, phase as hue (same wheel as the statevector bars)
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext("2d");
+    if (!ctx || !U) return;
+    const cell = HEATMAP_PX / N;
+    ctx.clearRect(0, 0, HEATMAP_PX, HEATMAP_PX);
+    U.forEach((col, j) =>
+      col.forEach((z, i) => {
+        const r = Math.hypot(z.re, z.im);
+        if (r < 1e-9) return;
+        ctx.globalAlpha = Math.min(1, r);
+        ctx.fillStyle = phaseColor(Math.atan2(z.im, z.re));
+        ctx.fillRect(j * cell, i * cell, cell, cell);
+      })
+    );
+    ctx.globalAlpha = 1;
+  }, [U, N]);
+
+  const entryText = (z: Complex) => (exact && exactEntry(z)?.text) || formatComplex(z, 4);
+  const title = range ? `Unitary of moments t${from}–t${to}` : "Unitary of the whole circuit";
+  const copy = (format: UnitaryFormat) => {
+    if (!U) return;
+    const { label, generate } = UNITARY_FORMATS[format];
+    navigator.clipboard
+      ?.writeText(generate(U, title))
+      .then(() => setCopied(label))
+      .catch(() => setCopied(null));
+  };
+  const selectionRange = (): [number, number] | null =>
+    selection.length ? [Math.min(...selection.map((r) => r.t)), Math.max(...selection.map((r) => r.t))] : null;
+
+  return (
+    <div className="stack" style={{ gap: 8 }}>
+      <div className="row" style={{ gap: 6, fontSize: 13 }}>
+        <label>
+          From{" "}
+          <select
+            className="select"
+            value={from}
+            disabled={last < 0}
+            onChange={(e) => setRange([parseInt(e.target.value), Math.max(to, parseInt(e.target.value))])}
+          >
+            {circuit.moments.map((m) => (
+              <option key={m.t} value={m.t}>{`t${m.t}`}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          to{" "}
+          <select
+            className="select"
+            value={to}
+            disabled={last < 0}
+            onChange={(e) => setRange([Math.min(from, parseInt(e.target.value)), parseInt(e.target.value)])}
+          >
+            {circuit.moments.map((m) => (
+              <option key={m.t} value={m.t}>{`t${m.t}`}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <div className="row" style={{ gap: 6 }}>
+        <button className="btn btn-small" onClick={() => setRange(selectionRange())} disabled={!selection.length}>
+          Selected columns
+        </button>
+        <button className="btn btn-small" onClick={() => setRange(null)} disabled={!range}>
+          Whole circuit
+        </button>
+      </div>
+
+      {result.error && <p style={{ fontSize: 12, color: "#ef4444", margin: 0 }}>{result.error}</p>}
+      {U && (
+        <>
+          <PhaseLegend />
+          <canvas
+            ref={canvasRef}
+            width={HEATMAP_PX}
+            height={HEATMAP_PX}
+            style={{ width: HEATMAP_PX, maxWidth: "100%", border: "1px solid rgba(127,127,127,.3)", borderRadius: 4 }}
+            onMouseMove={(e) => {
+              const rect = e.currentTarget.getBoundingClientRect();
+              const j = Math.floor(((e.clientX - rect.left) / rect.width) * N);
+              const i = Math.floor(((e.clientY - rect.top) / rect.height) * N);
+              setHover(i >= 0 && i < N && j >= 0 && j < N ? [i, j] : null);
+            }}
+            onMouseLeave={() => setHover(null)}
+          />
+          <p style={{ fontSize: 12, fontFamily: "monospace", margin: 0, minHeight: "1.4em" }}>
+            {hover
+              ? `⟨${basisLabel(hover[0], circuit.nQubits, false)}|U|${basisLabel(hover[1], circuit.nQubits, false)}⟩ = ${entryText(U[hover[1]][hover[0]])}`
+              : "Rows: output basis state, columns: input (q0 rightmost)."}
+          </p>
+          {N <= UNITARY_TABLE_MAX && (
+            <div style={{ overflow: "auto" }}>
+              <table style={{ borderCollapse: "collapse", fontSize: 12, fontFamily: "monospace" }}>
+                <tbody>
+                  {unitaryRows(U).map((row, i) => (
+                    <tr key={i}>
+                      {row.map((z, j) => (
+                        <td key={j} align="center" style={{ padding: "1px 6px", opacity: norm2(z) > NEAR_ZERO ? 1 : 0.35 }}>
+                          {entryText(z)}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          <label style={{ fontSize: 13 }}>
+            <input type="checkbox" checked={exact} onChange={(e) => setExact(e.target.checked)} /> Exact entries (1/√2, i, e^(iπ/4)…)
+          </label>
+          <div className="row" style={{ gap: 6 }}>
+            {(Object.keys(UNITARY_FORMATS) as UnitaryFormat[]).map((f) => (
+              <button key={f} className="btn btn-small" onClick={() => copy(f)}>
+                Copy {UNITARY_FORMATS[f].label}
+              </button>
+            ))}
+            {copied && <span style={{ fontSize: 12, opacity: 0.7 }}>{copied} copied</span>}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+/* =============== Statevector inspector (amplitudes & phases) =============== */
+// Hue encodes the phase: 0 red, π/2 yellow-green, π cyan, 3π/2 violet.
+const phaseColor = (phi: number) => `hsl(${Math.round(((phi / (2 * Math.PI)) % 1 + 1) % 1 * 360)}, 75%, 50%)`;
+
+// Basis state index (or classical register value) as a bitstring; little-endian puts bit 0
+// rightmost, big-endian leftmost.
+function basisLabel(i: number | bigint, nQubits: number, bigEndian: boolean) {
+  const bits = i.toString(2).padStart(nQubits, "0");
+  return bigEndian ? [...bits].reverse().join("") : bits;
+}
+
+const NEAR_ZERO = 1e-9; // probability below which an amplitude counts as zero
+const MAX_AMPLITUDE_ROWS = 512;
+
+function PhaseLegend() {
+  return (
+    <div className="row" style={{ gap: 6, fontSize: 11, opacity: 0.85 }}>
+      <span>phase</span>
+      <span>0</span>
+      <div className="phase-legend" />
+      <span>2π</span>
+    </div>
+  );
+}
+
+function StatevectorPanel({
+  sim,
+  circuit,
+  bigEndian,
+  setBigEndian,
+}: {
+  sim: SimResult;
+  circuit: Circuit;
+  bigEndian: boolean;
+  setBigEndian: (v: boolean) => void;
+}) {
+  const [branch, setBranch] = useState(0);
+  const [hideZero, setHideZero] = useState(true);
+  const b = Math.min(branch, sim.branches.length - 1);
+  const state = sim.state ?? sim.branches[b].state; // null for registers too large to expand
+
+  const { rows, total } = useMemo(() => {
+    const rows: { i: number; a: Complex; p: number }[] = [];
+    let total = 0;
+    if (!state) return { rows, total };
+    for (let i = 0; i < state.length >> 1; i++) {
+      const p = ampNorm2(state, i);
+      if (hideZero && p <= NEAR_ZERO) continue;
+      total++;
+      if (rows.length < MAX_AMPLITUDE_ROWS) rows.push({ i, a: amp(state, i), p });
+    }
+    return { rows, total };
+  }, [state, hideZero]);
+  const fmt = (x: number) => (Math.abs(x) < 5e-5 ? "0" : x.toFixed(4));
+
+  if (!state) {
+    return (
+      <p style={{ fontSize: 12, opacity: 0.7, margin: 0 }}>
+        The stabilizer backend only expands registers of up to {STATEVECTOR_MAX_QUBITS} qubits into amplitudes.
+      </p>
+    );
+  }
+  return (
+    <div className="stack" style={{ gap: 8 }}>
+      {!sim.state && (
+        <label style={{ fontSize: 12 }}>
+          Mid-circuit measurements split the run into {sim.branches.length} branches. Showing{" "}
+          <select className="select" value={b} onChange={(e) => setBranch(parseInt(e.target.value))}>
+            {sim.branches.map((br, k) => (
+              <option key={k} value={k}>
+                {`c=${basisLabel(br.clbits, circuit.nClbits, bigEndian)} (p=${+br.weight.toFixed(4)})`}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+      <div className="row" style={{ gap: 12, fontSize: 13 }}>
+        <label>
+          <input type="checkbox" checked={hideZero} onChange={(e) => setHideZero(e.target.checked)} /> Hide zero amplitudes
+        </label>
+        <select
+          className="select"
+          value={bigEndian ? "big" : "little"}
+          onChange={(e) => setBigEndian(e.target.value === "big")}
+          title="Bit order of basis labels"
+        >
+          <option value="little">q0 rightmost (little-endian)</option>
+          <option value="big">q0 leftmost (big-endian)</option>
+        </select>
+      </div>
+      {sim.backend.kind === "stabilizer" && (
+        <p style={{ fontSize: 12, opacity: 0.7, margin: 0 }}>
+          Stabilizer backend: amplitudes are exact up to a global phase, which can differ from a statevector run.
+        </p>
+      )}
+      <PhaseLegend />
+      <div style={{ maxHeight: 260, overflow: "auto" }}>
+        <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 12 }}>
+          <thead>
+            <tr>
+              <th align="left">Basis</th>
+              <th align="right">Amplitude</th>
+              <th align="right">|a|</th>
+              <th align="right">Phase</th>
+              <th align="right">P</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ i, a, p }) => {
+              const phi = Math.atan2(a.im, a.re);
+              return (
+                <tr key={i}>
+                  <td style={{ fontFamily: "monospace" }}>{`|${basisLabel(i, circuit.nQubits, bigEndian)}⟩`}</td>
+                  <td align="right">{`${fmt(a.re)} ${a.im < 0 ? "−" : "+"} ${fmt(Math.abs(a.im))}i`}</td>
+                  <td align="right">{fmt(Math.sqrt(p))}</td>
+                  <td align="right">
+                    {p > NEAR_ZERO && (
+                      <>
+                        <span className="phase-swatch" style={{ background: phaseColor(phi) }} />
+                        {formatAngle(phi)}
+                      </>
+                    )}
+                  </td>
+                  <td align="right">{fmt(p)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {total > rows.length && (
+          <p style={{ fontSize: 12, opacity: 0.7 }}>
+            Showing {rows.length} of {total} basis states.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const MAX_BARS = 64; // larger registers chart only their most likely basis states
+
+// Indices of the k largest weights, in index order (every index when there are at most k).
+function topIndices(weight: (i: number) => number, n: number, k: number): number[] {
+  if (n <= k) return Array.from({ length: n }, (_, i) => i);
+  const top: number[] = []; // by descending weight
+  for (let i = 0; i < n; i++) {
+    const w = weight(i);
+    if (top.length === k && w <= weight(top[k - 1])) continue;
+    let pos = top.length;
+    while (pos > 0 && weight(top[pos - 1]) < w) pos--;
+    top.splice(pos, 0, i);
+    if (top.length > k) top.pop();
+  }
+  return top.sort((a, b) => a - b);
+}
+
+function BarChart({
+  probs,
+  compare,
+  state,
+  bigEndian = false,
+}: {
+  probs: Float64Array;
+  compare?: Float64Array;
+  state?: State | null; // amplitudes; colours each bar by its phase on the phase wheel
+  bigEndian?: boolean;
+}) {
+  const shown = useMemo(
+    () => topIndices((i) => Math.max(probs[i], compare?.[i] ?? 0), probs.length, MAX_BARS),
+    [probs, compare]
+  );
+  const max = Math.max(1e-9, ...shown.map((i) => Math.max(probs[i], compare?.[i] ?? 0)));
+  const nQubits = Math.log2(probs.length);
+  return (
+    <>
+      {shown.length < probs.length && (
+        <p style={{ fontSize: 12, opacity: 0.7, marginTop: 0 }}>
+          Showing the {shown.length} most likely of {probs.length} basis states.
+        </p>
+      )}
+      <div
+        style={{
+          display: "grid",
+          gridTemplateColumns: `repeat(${shown.length}, 1fr)`,
+          gap: 6,
+          alignItems: "end",
+          height: 180,
+        }}
+      >
+        {shown.map((i) => {
+          const p = probs[i];
+          const label = basisLabel(i, nQubits, bigEndian);
+          return (
+            <div
+              key={i}
+              title={
+                compare
+                  ? `${label}: ${(p * 100).toFixed(2)}% noisy, ${(compare[i] * 100).toFixed(2)}% ideal`
+                  : `${label}: ${(p * 100).toFixed(2)}%`
+              }
+            >
+              <div style={{ display: "flex", gap: 2, alignItems: "flex-end" }}>
+                <div
+                  className="bar"
+                  style={{
+                    flex: 1,
+                    height: `${(p / max) * 160}px`,
+                    ...(state && p > NEAR_ZERO && { background: phaseColor(Math.atan2(state[2 * i + 1], state[2 * i])) }),
+                  }}
+                />
+                {compare && <div className="bar bar-ideal" style={{ flex: 1, height: `${(compare[i] / max) * 160}px` }} />}
+              </div>
+              <div style={{ textAlign: "center", fontSize: 12, marginTop: 4 }}>{label}</div>
+            </div>
+          );
+        })}
+      </div>
+    </>
+  );
+}
@@ -0,0 +1,31 @@
+/*
+ * Simulation worker: runs one SimRequest at a time and posts back the SimResponse, handing
+ * the state buffers over instead of copying them. A newer request cancels an older one by
+ * terminating the worker (see useSimulation in App.tsx), so nothing here needs to poll.
+ */
+import { runSimulation } from "./simulator.ts";
+import type { SimRequest, SimResponse, SimResult } from "./simulator.ts";
+
+// Every distinct buffer in the response; branches can share one state, and a transfer list
+// must not name the same buffer twice.
+function transferables(res: SimResponse): ArrayBuffer[] {
+  const buffers = new Set<ArrayBuffer>();
+  const collect = (sim: SimResult) => {
+    if (sim.probs) buffers.add(sim.probs.buffer as ArrayBuffer);
+    for (const b of sim.branches) {
+      for (const arr of [b.state, b.probs, b.tableau?.x, b.tableau?.z, b.tableau?.r]) if (arr) buffers.add(arr.buffer as ArrayBuffer);
+    }
+  };
+  [res.ideal, res.noisy, ...(res.traces?.ideal ?? []), ...(res.traces?.noisy ?? [])].forEach((sim) => sim && collect(sim));
+  return [...buffers];
+}
+
+self.addEventListener("message", (e: MessageEvent<SimRequest>) => {
+  try {
+    const res = runSimulation(e.data);
+    self.postMessage(res, { transfer: transferables(res) });
+  } catch (err) {
+    // typically a failed allocation on a register too large for this device
+    self.postMessage({ id: e.data.id, error: (err as Error).message });
+  }
+});
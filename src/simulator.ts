@@ -0,0 +1,1639 @@
+/*
+ * Simulation engine: circuit model, statevector, density-matrix and stabilizer-tableau
+ * backends, measurement branching and shot sampling. It has no React or DOM dependencies so that the simulation
+ * worker (simWorker.ts) can run it off the main thread.
+ */
+
+/* ================= Quantum math utils ================= */
+const SQRT1_2 = Math.SQRT1_2;
+
+// Scalars and small gate matrices; states use the typed layout below.
+export type Complex = { re: number; im: number };
+export const c = (re = 0, im = 0): Complex => ({ re, im });
+const mul = (a: Complex, b: Complex) =>
+  c(a.re * b.re - a.im * b.im, a.re * b.im + a.im * b.re);
+export const norm2 = (a: Complex) => a.re * a.re + a.im * a.im;
+const expi = (phi: number) => c(Math.cos(phi), Math.sin(phi));
+
+// A statevector (or flattened density matrix) stored interleaved as [re0, im0, re1, im1, …],
+// so the kernels below update amplitudes in place without allocating.
+export type State = Float64Array;
+
+export const amp = (st: State, i: number): Complex => c(st[2 * i], st[2 * i + 1]);
+export const ampNorm2 = (st: State, i: number) => st[2 * i] * st[2 * i] + st[2 * i + 1] * st[2 * i + 1];
+
+export function zeroState(nQubits: number): State {
+  const st = new Float64Array(2 << nQubits);
+  st[0] = 1;
+  return st;
+}
+
+// A source of uniform numbers in [0, 1), like Math.random.
+export type Random = () => number;
+
+// Mulberry32: a small, fast 32-bit generator; the same seed always yields the same sequence.
+export function seededRandom(seed: number): Random {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// A k-qubit operator as a row-major 2^k × 2^k matrix. Bit j of a row/column index is the
+// state of the j-th wire the operator is applied to.
+export type Matrix = Complex[];
+
+const phaseMatrix = (lambda: number): Matrix => [c(1), c(0), c(0), expi(lambda)];
+
+/**
+ * Generic controlled-unitary kernel: applies U to `targets` on every basis state whose
+ * bits under `cmask` equal `cval`, leaving all other amplitudes untouched. Positive
+ * controls set their bit in cval, negated controls leave it clear. Arithmetic is done on
+ * the interleaved floats directly; single-wire gates take the dedicated apply1Q loop.
+ */
+function applyControlled(st: State, targets: number[], U: Matrix, cmask = 0, cval = 0) {
+  if (targets.length === 1) {
+    apply1Q(st, targets[0], U, cmask, cval);
+    return;
+  }
+  const N = st.length >> 1;
+  const K = 1 << targets.length;
+  const ascending = [...targets].sort((a, b) => a - b);
+  // offsets[r]: the target bits to OR into a base index to reach sub-index r
+  const offsets = Array.from({ length: K }, (_, r) =>
+    targets.reduce((o, q, j) => ((r >> j) & 1 ? o | (1 << q) : o), 0)
+  );
+  const ur = Float64Array.from(U, (z) => z.re);
+  const ui = Float64Array.from(U, (z) => z.im);
+  // permutation matrices (SWAP, CSWAP) only move amplitudes: row r takes column perm[r]
+  const perm: number[] = [];
+  for (let r = 0; r < K && perm.length === r; r++) {
+    const row = U.slice(r * K, (r + 1) * K);
+    const col = row.findIndex((z) => z.re === 1 && z.im === 0);
+    if (col >= 0 && row.every((z, k) => k === col || (z.re === 0 && z.im === 0))) perm.push(col);
+  }
+  const permutation = perm.length === K;
+  const ar = new Float64Array(K);
+  const ai = new Float64Array(K);
+  for (let b = 0; b < N / K; b++) {
+    // spread b over the non-target bits to get a base index with every target bit clear
+    let i = b;
+    for (const q of ascending) i = ((i >> q) << (q + 1)) | (i & ((1 << q) - 1));
+    if ((i & cmask) !== cval) continue;
+    for (let r = 0; r < K; r++) {
+      const k = 2 * (i | offsets[r]);
+      ar[r] = st[k];
+      ai[r] = st[k + 1];
+    }
+    for (let r = 0; r < K; r++) {
+      if (permutation) {
+        const k = 2 * (i | offsets[r]);
+        st[k] = ar[perm[r]];
+        st[k + 1] = ai[perm[r]];
+        continue;
+      }
+      let re = 0, im = 0;
+      for (let col = 0, u = r * K; col < K; col++, u++) {
+        re += ur[u] * ar[col] - ui[u] * ai[col];
+        im += ur[u] * ai[col] + ui[u] * ar[col];
+      }
+      const k = 2 * (i | offsets[r]);
+      st[k] = re;
+      st[k + 1] = im;
+    }
+  }
+}
+
+// Single-wire case of applyControlled with the 2×2 product written out; diagonal gates
+// (Z, S, T, P, RZ) only scale the amplitudes they change.
+function apply1Q(st: State, q: number, U: Matrix, cmask: number, cval: number) {
+  const N = st.length >> 1;
+  const bit = 1 << q;
+  const [u00, u01, u10, u11] = U;
+  const ar = u00.re, ai = u00.im, br = u01.re, bi = u01.im;
+  const dr = u10.re, di = u10.im, er = u11.re, ei = u11.im;
+  const diagonal = br === 0 && bi === 0 && dr === 0 && di === 0;
+  const identityTop = diagonal && ar === 1 && ai === 0;
+  for (let base = 0; base < N; base += bit << 1) {
+    for (let i = base; i < base + bit; i++) {
+      if ((i & cmask) !== cval) continue;
+      const k0 = 2 * i, k1 = 2 * (i | bit);
+      const x0r = st[k0], x0i = st[k0 + 1], x1r = st[k1], x1i = st[k1 + 1];
+      if (diagonal) {
+        if (!identityTop) {
+          st[k0] = ar * x0r - ai * x0i;
+          st[k0 + 1] = ar * x0i + ai * x0r;
+        }
+        st[k1] = er * x1r - ei * x1i;
+        st[k1 + 1] = er * x1i + ei * x1r;
+        continue;
+      }
+      st[k0] = ar * x0r - ai * x0i + br * x1r - bi * x1i;
+      st[k0 + 1] = ar * x0i + ai * x0r + br * x1i + bi * x1r;
+      st[k1] = dr * x0r - di * x0i + er * x1r - ei * x1i;
+      st[k1 + 1] = dr * x0i + di * x0r + er * x1i + ei * x1r;
+    }
+  }
+}
+
+function probsFromState(st: State): Float64Array {
+  const p = new Float64Array(st.length >> 1);
+  for (let i = 0; i < p.length; i++) p[i] = ampNorm2(st, i);
+  return p;
+}
+
+// Projective Z measurement of qubit t: keeps the half of the state with that outcome and
+// renormalises it. Returns the probability the outcome had before collapsing.
+function collapse(st: State, t: number, outcome: 0 | 1): number {
+  const N = st.length >> 1;
+  const bit = 1 << t;
+  let p = 0;
+  for (let i = 0; i < N; i++) if (((i & bit) !== 0 ? 1 : 0) === outcome) p += ampNorm2(st, i);
+  const scale = p > 0 ? 1 / Math.sqrt(p) : 0;
+  for (let i = 0; i < N; i++) {
+    const s = ((i & bit) !== 0 ? 1 : 0) === outcome ? scale : 0;
+    st[2 * i] *= s;
+    st[2 * i + 1] *= s;
+  }
+  return p;
+}
+
+/* ================= Circuit model ================= */
+export type GateType =
+  | "H" | "X" | "Y" | "Z" | "S" | "SDG" | "T" | "TDG"
+  | "RX" | "RY" | "RZ" | "P" | "U3"
+  | "CX" | "CZ" | "SWAP" | "CCX" | "CSWAP"
+  | "MEASURE"
+  | "CUSTOM"; // an instance of a GateDefinition, see inlineComposites
+
+// Extra control wire on a gate; a negated control fires when the wire is |0⟩.
+export type Control = { qubit: number; negated: boolean };
+
+// Classical condition (c_if): the gate only fires when the listed classical bits, read as an
+// integer with bits[0] least significant, equal `value`. Listing every bit tests the register.
+export type Condition = { bits: number[]; value: number };
+
+// A single-qubit Pauli operator: a measurement basis, or one factor of an observable.
+export type Pauli = "X" | "Y" | "Z";
+export type PauliOp = { qubit: number; pauli: Pauli };
+
+export type Gate = {
+  id: string;
+  type: GateType;
+  // [q] for single-qubit gates; controls first for CX/CZ [c, t], CCX [c0, c1, t], CSWAP [c, a, b]; SWAP [a, b]
+  targets: number[];
+  params?: number[]; // angles in radians, see GATE_PARAMS
+  symbols?: (string | null)[]; // parallel to params: the named symbol (θ, φ, …) an angle is bound to
+  controls?: Control[]; // extra controls on top of the built-in ones (never on MEASURE)
+  cbit?: number; // MEASURE only: classical bit receiving the outcome (defaults to the qubit index)
+  basis?: Pauli; // MEASURE only: measured observable, Z when missing
+  name?: string; // CUSTOM only: the GateDefinition this gate instantiates
+  dagger?: boolean; // CUSTOM only: apply the inverse of the definition
+  condition?: Condition;
+};
+
+// Number of wires each gate type acts on (length of Gate.targets).
+export const GATE_ARITY: Record<GateType, number> = {
+  H: 1, X: 1, Y: 1, Z: 1, S: 1, SDG: 1, T: 1, TDG: 1,
+  RX: 1, RY: 1, RZ: 1, P: 1, U3: 1,
+  CX: 2, CZ: 2, SWAP: 2, CCX: 3, CSWAP: 3,
+  MEASURE: 1,
+  CUSTOM: 0, // varies: the definition's nQubits
+};
+
+// Leading entries of Gate.targets that are built-in controls rather than operator wires.
+export const IMPLICIT_CONTROLS: Partial<Record<GateType, number>> = { CX: 1, CZ: 1, CCX: 2, CSWAP: 1 };
+
+// Parameter names per gate type; gates not listed take no parameters.
+export const GATE_PARAMS: Partial<Record<GateType, string[]>> = {
+  RX: ["θ"],
+  RY: ["θ"],
+  RZ: ["θ"],
+  P: ["λ"],
+  U3: ["θ", "φ", "λ"],
+};
+
+export const DEFAULT_PARAMS: Partial<Record<GateType, number[]>> = {
+  RX: [Math.PI / 2],
+  RY: [Math.PI / 2],
+  RZ: [Math.PI / 2],
+  P: [Math.PI / 2],
+  U3: [Math.PI / 2, 0, Math.PI],
+};
+
+export type Moment = { t: number; gates: Gate[] };
+
+export type Circuit = {
+  nQubits: number;
+  nClbits: number; // classical bits written by MEASURE gates
+  moments: Moment[];
+  labels?: string[]; // custom wire names; empty or missing entries fall back to q0, q1, ...
+  definitions?: GateDefinition[]; // composite gates available to CUSTOM gates, in definition order
+};
+
+// A named, reusable block of gates acting on slots 0..nQubits-1; a CUSTOM gate's targets say
+// which wire each slot lands on. Bodies are unitary (no MEASURE, no conditions) and may only
+// use definitions listed before them, so expansion always terminates.
+export type GateDefinition = { name: string; nQubits: number; moments: Gate[][] };
+
+// Every wire a gate touches: targets plus extra controls.
+export function gateQubits(g: Gate): number[] {
+  return [...g.targets, ...(g.controls ?? []).map((ctl) => ctl.qubit)];
+}
+
+// Move a gate down by dq wires (up if negative), keeping every wire it touches on the board.
+export function shiftGate(g: Gate, dq: number, nQubits: number): Gate {
+  const qs = gateQubits(g);
+  const lo = Math.min(...qs);
+  const hi = Math.max(...qs);
+  const d = Math.max(-lo, Math.min(nQubits - 1 - hi, dq));
+  if (d === 0) return g;
+  return {
+    ...g,
+    targets: g.targets.map((q) => q + d),
+    ...(g.controls && { controls: g.controls.map((ctl) => ({ ...ctl, qubit: ctl.qubit + d })) }),
+  };
+}
+
+// Wires the editor allows. Only all-Clifford circuits simulate beyond STATEVECTOR_MAX_QUBITS
+// (on the stabilizer backend).
+export const MAX_QUBITS = 512;
+
+// Statevectors take 16·2^n bytes, so 24 qubits is 256 MB per copy.
+export const STATEVECTOR_MAX_QUBITS = 24;
+
+// Current value of every symbol, read from the first angle bound to it; assignSymbols keeps
+// all angles sharing a symbol equal.
+export function circuitSymbols(circ: Circuit): Map<string, number> {
+  const values = new Map<string, number>();
+  for (const m of circ.moments) {
+    for (const g of m.gates) {
+      g.symbols?.forEach((name, i) => {
+        if (name && !values.has(name)) values.set(name, (g.params ?? DEFAULT_PARAMS[g.type] ?? [])[i]);
+      });
+    }
+  }
+  return values;
+}
+
+// The circuit with every angle bound to a listed symbol set to that symbol's value.
+export function assignSymbols(circ: Circuit, values: Record<string, number>): Circuit {
+  const assigned = (name: string | null | undefined): name is string => !!name && Object.hasOwn(values, name);
+  const bound = (g: Gate) => g.symbols?.some(assigned);
+  return {
+    ...circ,
+    moments: circ.moments.map((m) =>
+      m.gates.some(bound)
+        ? {
+            ...m,
+            gates: m.gates.map((g) => {
+              if (!bound(g)) return g;
+              const p = g.params ?? DEFAULT_PARAMS[g.type] ?? [];
+              const symbols = g.symbols ?? [];
+              return { ...g, params: p.map((v, i) => (assigned(symbols[i]) ? values[symbols[i]] : v)) };
+            }),
+          }
+        : m
+    ),
+  };
+}
+
+/**
+ * One level of a CUSTOM gate's body, placed on the gate's wires: dagger reverses the moments
+ * and inverts each gate, and the gate's controls and condition carry over to every body gate.
+ */
+export function expandComposite(g: Gate, definitions: GateDefinition[]): Gate[][] {
+  const def = definitions.find((d) => d.name === g.name);
+  if (!def) throw new Error(`Unknown custom gate "${g.name}"`);
+  const wire = (slot: number) => g.targets[slot];
+  const moments = def.moments.map((gates, j) =>
+    gates.map((b, k): Gate => {
+      const mapped: Gate = { ...b, id: `${g.id}/${j}.${k}`, targets: b.targets.map(wire) };
+      const controls = [...(b.controls ?? []).map((ctl) => ({ ...ctl, qubit: wire(ctl.qubit) })), ...(g.controls ?? [])];
+      if (controls.length) mapped.controls = controls;
+      if (g.condition) mapped.condition = g.condition;
+      return g.dagger ? inverseGate(mapped) : mapped;
+    })
+  );
+  return g.dagger ? moments.reverse().map((gates) => gates.reverse()) : moments;
+}
+
+// The circuit with every CUSTOM gate replaced by its gates, in order, inside its own moment,
+// so moment indices (and the debugger's trace) still line up with the editor.
+export function inlineComposites(circ: Circuit): Circuit {
+  if (!circ.moments.some((m) => m.gates.some((g) => g.type === "CUSTOM"))) return circ;
+  const definitions = circ.definitions ?? [];
+  const flatten = (g: Gate): Gate[] =>
+    g.type === "CUSTOM" ? expandComposite(g, definitions).flat().flatMap(flatten) : [g];
+  return { ...circ, moments: circ.moments.map((m) => ({ ...m, gates: m.gates.flatMap(flatten) })) };
+}
+
+export function emptyCircuit(nQubits = 2): Circuit {
+  return { nQubits, nClbits: nQubits, moments: [] };
+}
+
+// The gate undoing `g`: self-inverse gates stay, S/T swap with their daggers, angles negate.
+// Negated angles no longer equal their symbols, so they become plain numbers.
+export function inverseGate(g: Gate): Gate {
+  const p = g.params ?? DEFAULT_PARAMS[g.type] ?? [];
+  switch (g.type) {
+    case "S": return { ...g, type: "SDG" };
+    case "SDG": return { ...g, type: "S" };
+    case "T": return { ...g, type: "TDG" };
+    case "TDG": return { ...g, type: "T" };
+    case "RX":
+    case "RY":
+    case "RZ":
+    case "P":
+      return { ...g, params: [-p[0]], symbols: undefined };
+    case "U3":
+      return { ...g, params: [-p[0], -p[2], -p[1]], symbols: undefined };
+    case "CUSTOM":
+      return { ...g, dagger: !g.dagger || undefined };
+    default:
+      return g;
+  }
+}
+
+// The operator a gate applies to its non-control targets (X for CX/CCX, SWAP for CSWAP, ...).
+export function gateMatrix(type: GateType, p: number[]): Matrix | null {
+  const s = SQRT1_2;
+  switch (type) {
+    case "H":
+      return [c(s), c(s), c(s), c(-s)];
+    case "X":
+    case "CX":
+    case "CCX":
+      return [c(0), c(1), c(1), c(0)];
+    case "Y":
+      return [c(0), c(0, -1), c(0, 1), c(0)];
+    case "Z":
+    case "CZ":
+      return phaseMatrix(Math.PI);
+    case "S":
+      return phaseMatrix(Math.PI / 2);
+    case "SDG":
+      return phaseMatrix(-Math.PI / 2);
+    case "T":
+      return phaseMatrix(Math.PI / 4);
+    case "TDG":
+      return phaseMatrix(-Math.PI / 4);
+    case "P":
+      return phaseMatrix(p[0]);
+    case "RX": {
+      const co = Math.cos(p[0] / 2), si = Math.sin(p[0] / 2);
+      return [c(co), c(0, -si), c(0, -si), c(co)];
+    }
+    case "RY": {
+      const co = Math.cos(p[0] / 2), si = Math.sin(p[0] / 2);
+      return [c(co), c(-si), c(si), c(co)];
+    }
+    case "RZ":
+      return [expi(-p[0] / 2), c(0), c(0), expi(p[0] / 2)];
+    case "U3": {
+      // U3(θ, φ, λ) = RZ(φ)·RY(θ)·RZ(λ) up to global phase (OpenQASM convention)
+      const co = Math.cos(p[0] / 2), si = Math.sin(p[0] / 2);
+      return [c(co), mul(expi(p[2]), c(-si)), mul(expi(p[1]), c(si)), mul(expi(p[1] + p[2]), c(co))];
+    }
+    case "SWAP":
+    case "CSWAP":
+      return [
+        c(1), c(0), c(0), c(0),
+        c(0), c(0), c(1), c(0),
+        c(0), c(1), c(0), c(0),
+        c(0), c(0), c(0), c(1),
+      ];
+    case "MEASURE":
+    case "CUSTOM": // inlined before simulation
+      return null;
+  }
+}
+
+// Control mask/value for a gate: its built-in controls plus any extra `controls` modifiers.
+function controlBits(g: Gate) {
+  let cmask = 0;
+  let cval = 0;
+  for (const q of g.targets.slice(0, IMPLICIT_CONTROLS[g.type] ?? 0)) {
+    cmask |= 1 << q;
+    cval |= 1 << q;
+  }
+  for (const ctl of g.controls ?? []) {
+    cmask |= 1 << ctl.qubit;
+    if (!ctl.negated) cval |= 1 << ctl.qubit;
+  }
+  return { cmask, cval };
+}
+
+// A gate reduced to "apply U to these wires when the control bits match", or null for MEASURE.
+function lowerGate(g: Gate) {
+  const U = gateMatrix(g.type, g.params ?? DEFAULT_PARAMS[g.type] ?? []);
+  if (!U) return null;
+  return { U, targets: g.targets.slice(IMPLICIT_CONTROLS[g.type] ?? 0), ...controlBits(g) };
+}
+
+export function applyGate(st: State, g: Gate) {
+  const op = lowerGate(g);
+  if (op) applyControlled(st, op.targets, op.U, op.cmask, op.cval);
+}
+
+/* ================= Density matrix & noise ================= */
+// Error rates for one noise source; each is a probability in [0, 1].
+export type NoiseRates = { depolarizing: number; amplitudeDamping: number; phaseDamping: number };
+
+/**
+ * Noise applied by the density-matrix backend. After every gate, each wire it touches gets
+ * the rates of its gate type plus the rates of that wire. Readout errors flip the recorded
+ * classical bit of a measurement of qubit q with probability readout[q].
+ */
+export type NoiseModel = {
+  gate: Partial<Record<GateType, NoiseRates>>;
+  qubit: NoiseRates[];
+  readout: number[];
+};
+
+export const NO_NOISE: NoiseRates = { depolarizing: 0, amplitudeDamping: 0, phaseDamping: 0 };
+
+// Density matrices need 4^n amplitudes, so noisy simulation stops well before the statevector limit.
+export const DM_MAX_QUBITS = 8;
+
+const conjMatrix = (U: Matrix): Matrix => U.map((z) => c(z.re, -z.im));
+const scaleMatrix = (U: Matrix, s: number): Matrix => U.map((z) => c(z.re * s, z.im * s));
+
+// Kraus operators of the single-qubit channels, ρ → Σ K ρ K†.
+function krausOps(rates: NoiseRates): Matrix[][] {
+  const channels: Matrix[][] = [];
+  const { depolarizing: p, amplitudeDamping: gamma, phaseDamping: lambda } = rates;
+  if (p > 0) {
+    // ρ → (1 - p)·ρ + p·I/2
+    const I: Matrix = [c(1), c(0), c(0), c(1)];
+    const X: Matrix = [c(0), c(1), c(1), c(0)];
+    const Y: Matrix = [c(0), c(0, -1), c(0, 1), c(0)];
+    const Z: Matrix = [c(1), c(0), c(0), c(-1)];
+    channels.push([
+      scaleMatrix(I, Math.sqrt(1 - (3 * p) / 4)),
+      ...[X, Y, Z].map((P) => scaleMatrix(P, Math.sqrt(p / 4))),
+    ]);
+  }
+  if (gamma > 0) {
+    channels.push([
+      [c(1), c(0), c(0), c(Math.sqrt(1 - gamma))],
+      [c(0), c(Math.sqrt(gamma)), c(0), c(0)],
+    ]);
+  }
+  if (lambda > 0) {
+    channels.push([
+      [c(1), c(0), c(0), c(Math.sqrt(1 - lambda))],
+      [c(0), c(0), c(0), c(Math.sqrt(lambda))],
+    ]);
+  }
+  return channels;
+}
+
+const addRates = (a: NoiseRates, b: NoiseRates): NoiseRates => ({
+  depolarizing: Math.min(1, a.depolarizing + b.depolarizing),
+  amplitudeDamping: Math.min(1, a.amplitudeDamping + b.amplitudeDamping),
+  phaseDamping: Math.min(1, a.phaseDamping + b.phaseDamping),
+});
+
+// Which simulation method produced a result, and why it was picked for that circuit.
+export type BackendInfo = { kind: "statevector" | "density-matrix" | "stabilizer"; reason: string };
+
+/**
+ * State representation the branch simulator runs on. The dense ones keep a flat interleaved
+ * State: the statevector itself, or ρ with entry (row, col) at row | col << n so that row
+ * bits are qubits 0..n-1 and column bits are n..2n-1. The stabilizer backend keeps a Tableau.
+ */
+type Backend<S> = {
+  info: BackendInfo;
+  init: () => S;
+  copy: (st: S) => S;
+  apply: (st: S, g: Gate) => void;
+  prob1: (st: S, q: number) => number; // probability that measuring q gives 1
+  collapse: (st: S, q: number, outcome: 0 | 1) => void;
+  readoutError: (q: number) => number;
+  branchSize: number; // amplitudes a branch holds (or expands to), which bounds the branch count
+  output: (st: S) => BranchOutput;
+};
+
+// What a finished branch reports. Stabilizer runs also keep their tableau, and have no
+// amplitudes (`state` and `probs` null) once the register is too large to expand.
+type BranchOutput =
+  | { state: State; probs: Float64Array; tableau?: undefined }
+  | { state: State | null; probs: Float64Array | null; tableau: Tableau };
+
+function statevectorBackend(n: number, reason: string): Backend<State> {
+  return {
+    info: { kind: "statevector", reason },
+    init: () => zeroState(n),
+    copy: (st) => st.slice(),
+    apply: applyGate,
+    prob1: (st, q) => {
+      let p = 0;
+      for (let i = 1 << q; i < st.length >> 1; i++) if ((i >> q) & 1) p += ampNorm2(st, i);
+      return p;
+    },
+    collapse: (st, q, o) => void collapse(st, q, o),
+    readoutError: () => 0,
+    branchSize: 1 << n,
+    output: (st) => ({ state: st, probs: probsFromState(st) }),
+  };
+}
+
+function densityMatrixBackend(n: number, noise: NoiseModel): Backend<State> {
+  const N = 1 << n;
+  // U ρ U†: U on the row wires, U* on the column wires
+  const conjugate = (rho: State, targets: number[], U: Matrix, cmask = 0, cval = 0) => {
+    applyControlled(rho, targets, U, cmask, cval);
+    applyControlled(rho, targets.map((q) => q + n), conjMatrix(U), cmask << n, cval << n);
+  };
+  const channel = (rho: State, q: number, kraus: Matrix[]) => {
+    const out = new Float64Array(rho.length);
+    for (const K of kraus) {
+      const term = rho.slice();
+      conjugate(term, [q], K);
+      for (let i = 0; i < out.length; i++) out[i] += term[i];
+    }
+    rho.set(out);
+  };
+  const probs = (rho: State) => Float64Array.from({ length: N }, (_, i) => rho[2 * (i | (i << n))]);
+  return {
+    info: { kind: "density-matrix", reason: "Noise is on, so the run evolves the density matrix ρ." },
+    init: () => zeroState(2 * n),
+    copy: (rho) => rho.slice(),
+    apply: (rho, g) => {
+      const op = lowerGate(g);
+      if (!op) return;
+      conjugate(rho, op.targets, op.U, op.cmask, op.cval);
+      for (const q of gateQubits(g)) {
+        const rates = addRates(noise.gate[g.type] ?? NO_NOISE, noise.qubit[q] ?? NO_NOISE);
+        for (const kraus of krausOps(rates)) channel(rho, q, kraus);
+      }
+    },
+    prob1: (rho, q) => {
+      let p = 0;
+      for (let i = 1 << q; i < N; i++) if ((i >> q) & 1) p += rho[2 * (i | (i << n))];
+      return p;
+    },
+    collapse: (rho, q, o) => {
+      const rowBit = 1 << q;
+      const colBit = 1 << (q + n);
+      let p = 0;
+      for (let i = 0; i < N; i++) if (((i >> q) & 1) === o) p += rho[2 * (i | (i << n))];
+      const scale = p > 0 ? 1 / p : 0;
+      for (let i = 0; i < N * N; i++) {
+        const keep = ((i & rowBit) !== 0 ? 1 : 0) === o && ((i & colBit) !== 0 ? 1 : 0) === o;
+        rho[2 * i] *= keep ? scale : 0;
+        rho[2 * i + 1] *= keep ? scale : 0;
+      }
+    },
+    readoutError: (q) => noise.readout[q] ?? 0,
+    branchSize: N * N,
+    output: (rho) => ({ state: rho, probs: probs(rho) }),
+  };
+}
+
+/* ================= Stabilizer tableau (Clifford circuits) ================= */
+/**
+ * Aaronson–Gottesman tableau of an n-qubit stabilizer state. Rows 0..n-1 are destabilizers,
+ * rows n..2n-1 the stabilizers and row 2n is scratch space. Each row is a signed Pauli string
+ * with its X and Z bits packed 32 qubits to a word (x = z = 1 is Y); r = 1 means a −1 sign.
+ * Gates update it in O(n) and measurements in O(n²), so hundreds of qubits stay cheap.
+ */
+export type Tableau = { n: number; words: number; x: Uint32Array; z: Uint32Array; r: Uint8Array };
+
+function newTableau(n: number): Tableau {
+  const words = (n + 31) >> 5;
+  const rows = 2 * n + 1;
+  const tab = { n, words, x: new Uint32Array(rows * words), z: new Uint32Array(rows * words), r: new Uint8Array(rows) };
+  for (let q = 0; q < n; q++) {
+    tab.x[q * words + (q >> 5)] |= 1 << (q & 31);
+    tab.z[(n + q) * words + (q >> 5)] |= 1 << (q & 31);
+  }
+  return tab;
+}
+
+const copyTableau = (tab: Tableau): Tableau => ({ ...tab, x: tab.x.slice(), z: tab.z.slice(), r: tab.r.slice() });
+
+function popcount(v: number): number {
+  v -= (v >>> 1) & 0x55555555;
+  v = (v & 0x33333333) + ((v >>> 2) & 0x33333333);
+  return Math.imul((v + (v >>> 4)) & 0x0f0f0f0f, 0x01010101) >>> 24;
+}
+
+// The Clifford generators the tableau updates directly; every supported gate lowers to these.
+type CliffordOp = ["H" | "S" | "X" | "Y" | "Z", number] | ["CX", number, number];
+
+// Conjugate every row by one generator (the update rules of Aaronson & Gottesman).
+function applyClifford(tab: Tableau, op: CliffordOp) {
+  const { n, words, x, z, r } = tab;
+  const [kind, a] = op;
+  const wa = a >> 5, ma = 1 << (a & 31);
+  if (kind === "CX") {
+    const b = op[2];
+    const wb = b >> 5, mb = 1 << (b & 31);
+    for (let row = 0, k = 0; row < 2 * n; row++, k += words) {
+      const xa = (x[k + wa] & ma) !== 0, za = (z[k + wa] & ma) !== 0;
+      const xb = (x[k + wb] & mb) !== 0, zb = (z[k + wb] & mb) !== 0;
+      if (xa && zb && xb === za) r[row] ^= 1;
+      if (xa) x[k + wb] ^= mb;
+      if (zb) z[k + wa] ^= ma;
+    }
+    return;
+  }
+  for (let row = 0, k = wa; row < 2 * n; row++, k += words) {
+    const xa = (x[k] & ma) !== 0, za = (z[k] & ma) !== 0;
+    switch (kind) {
+      case "H":
+        if (xa && za) r[row] ^= 1;
+        if (xa !== za) {
+          x[k] ^= ma;
+          z[k] ^= ma;
+        }
+        break;
+      case "S":
+        if (xa && za) r[row] ^= 1;
+        if (xa) z[k] ^= ma;
+        break;
+      // Paulis only flip the sign of the rows they anticommute with
+      case "X":
+        if (za) r[row] ^= 1;
+        break;
+      case "Y":
+        if (xa !== za) r[row] ^= 1;
+        break;
+      case "Z":
+        if (xa) r[row] ^= 1;
+        break;
+    }
+  }
+}
+
+// Quarter turns in an angle that is a multiple of π/2 (0..3), or null for any other angle.
+function quarterTurns(theta: number): number | null {
+  const k = Math.round(theta / (Math.PI / 2));
+  return Math.abs(theta - (k * Math.PI) / 2) < 1e-9 ? ((k % 4) + 4) % 4 : null;
+}
+
+// A single-wire gate as generators, up to global phase (so never used under a control).
+function lowerClifford1(type: GateType, p: number[], q: number): CliffordOp[] | null {
+  const turns = (k: number) => Array.from({ length: k }, (): CliffordOp => ["S", q]);
+  const h: CliffordOp = ["H", q];
+  switch (type) {
+    case "H":
+      return [h];
+    case "X":
+    case "Y":
+    case "Z":
+      return [[type, q]];
+    case "S":
+      return turns(1);
+    case "SDG":
+      return turns(3);
+    case "P":
+    case "RZ":
+    case "RX":
+    case "RY": {
+      const k = quarterTurns(p[0]);
+      if (k === null) return null;
+      // RX(θ) = H·RZ(θ)·H and RY(θ) = S·RX(θ)·S†
+      if (type === "RX") return [h, ...turns(k), h];
+      if (type === "RY") return [...turns(3), h, ...turns(k), h, ...turns(1)];
+      return turns(k);
+    }
+    case "U3": {
+      // RZ(φ)·RY(θ)·RZ(λ), so RZ(λ) comes first in time
+      const parts = [lowerClifford1("RZ", [p[2]], q), lowerClifford1("RY", [p[0]], q), lowerClifford1("RZ", [p[1]], q)];
+      return parts.every((ops) => ops !== null) ? parts.flatMap((ops) => ops ?? []) : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * A gate as tableau generators, or null when it is not Clifford: T/T†, CCX, CSWAP, rotations
+ * by angles other than multiples of π/2, and controlled versions of anything but X, Y and Z.
+ * Negated controls are conjugated by X.
+ */
+function lowerClifford(g: Gate): CliffordOp[] | null {
+  const implicit = IMPLICIT_CONTROLS[g.type] ?? 0;
+  const controls = [
+    ...g.targets.slice(0, implicit).map((q) => ({ qubit: q, negated: false })),
+    ...(g.controls ?? []),
+  ];
+  const targets = g.targets.slice(implicit);
+  if (controls.length === 0) {
+    if (g.type === "SWAP") {
+      const [a, b] = targets;
+      return [["CX", a, b], ["CX", b, a], ["CX", a, b]];
+    }
+    return lowerClifford1(g.type, g.params ?? DEFAULT_PARAMS[g.type] ?? [], targets[0]);
+  }
+  const pauli = g.type === "CX" ? "X" : g.type === "CZ" ? "Z" : g.type;
+  if (controls.length > 1 || targets.length > 1 || !(pauli === "X" || pauli === "Y" || pauli === "Z")) return null;
+  const [{ qubit: c0, negated }] = controls;
+  const t = targets[0];
+  const flip: CliffordOp[] = negated ? [["X", c0]] : [];
+  const cx: CliffordOp = ["CX", c0, t];
+  // CZ = H·CX·H and CY = S·CX·S† on the target
+  const body: CliffordOp[] =
+    pauli === "X" ? [cx]
+    : pauli === "Z" ? [["H", t], cx, ["H", t]]
+    : [["S", t], ["S", t], ["S", t], cx, ["S", t]];
+  return [...flip, ...body, ...flip];
+}
+
+// The first gate that keeps a circuit off the stabilizer backend, or undefined when all are Clifford.
+function firstNonClifford(circ: Circuit): { g: Gate; t: number } | undefined {
+  for (const [t, m] of circ.moments.entries()) {
+    for (const g of m.gates) if (g.type !== "MEASURE" && !lowerClifford(g)) return { g, t };
+  }
+  return undefined;
+}
+
+const rowIndex = (tab: Tableau, row: number) => row * tab.words;
+
+function copyRow(tab: Tableau, from: number, to: number) {
+  const { words, x, z, r } = tab;
+  x.copyWithin(to * words, from * words, (from + 1) * words);
+  z.copyWithin(to * words, from * words, (from + 1) * words);
+  r[to] = r[from];
+}
+
+function clearRow(tab: Tableau, row: number) {
+  tab.x.fill(0, rowIndex(tab, row), rowIndex(tab, row + 1));
+  tab.z.fill(0, rowIndex(tab, row), rowIndex(tab, row + 1));
+  tab.r[row] = 0;
+}
+
+/**
+ * Row h ← row i · row h. The sign tallies the power of i each qubit's Pauli product adds
+ * (XY = iZ, YZ = iX, ZX = iY and −i for the reverse orders). Stabilizers commute, so their
+ * products stay Hermitian; destabilizer signs are never read.
+ */
+function rowMul(tab: Tableau, h: number, i: number) {
+  const { words, x, z, r } = tab;
+  const kh = h * words, ki = i * words;
+  let e = 2 * (r[h] + r[i]);
+  for (let w = 0; w < words; w++) {
+    const x1 = x[ki + w], z1 = z[ki + w], x2 = x[kh + w], z2 = z[kh + w];
+    const plus = (x1 & z1 & ~x2 & z2) | (x1 & ~z1 & x2 & z2) | (~x1 & z1 & x2 & ~z2);
+    const minus = (x1 & z1 & x2 & ~z2) | (x1 & ~z1 & ~x2 & z2) | (~x1 & z1 & x2 & z2);
+    e += popcount(plus) - popcount(minus);
+    x[kh + w] = x1 ^ x2;
+    z[kh + w] = z1 ^ z2;
+  }
+  r[h] = (e & 3) === 2 ? 1 : 0;
+}
+
+/**
+ * ⟨P⟩ for a Pauli string: 0 when P anticommutes with a stabilizer, otherwise ±P is the
+ * product of the stabilizers whose destabilizers anticommute with P, built in the scratch row.
+ */
+function tableauExpectation(tab: Tableau, ops: PauliOp[]): number {
+  const { n, words, x, z } = tab;
+  const px = new Uint32Array(words), pz = new Uint32Array(words);
+  for (const { qubit: q, pauli } of ops) {
+    if (pauli !== "Z") px[q >> 5] |= 1 << (q & 31);
+    if (pauli !== "X") pz[q >> 5] |= 1 << (q & 31);
+  }
+  // rows anticommute when their symplectic product x·pz + z·px is odd
+  const anticommutes = (row: number) => {
+    let acc = 0;
+    for (let w = 0, k = row * words; w < words; w++, k++) acc ^= (x[k] & pz[w]) ^ (z[k] & px[w]);
+    return (popcount(acc) & 1) === 1;
+  };
+  for (let row = n; row < 2 * n; row++) if (anticommutes(row)) return 0;
+  clearRow(tab, 2 * n);
+  for (let row = 0; row < n; row++) if (anticommutes(row)) rowMul(tab, 2 * n, row + n);
+  return tab.r[2 * n] ? -1 : 1;
+}
+
+// Measure Z on qubit q with the given outcome. Only random outcomes change the tableau;
+// callers skip outcomes a deterministic measurement cannot give.
+function tableauCollapse(tab: Tableau, q: number, outcome: 0 | 1) {
+  const { n, words, x, z, r } = tab;
+  const w = q >> 5, m = 1 << (q & 31);
+  let p = n;
+  while (p < 2 * n && (x[p * words + w] & m) === 0) p++;
+  if (p === 2 * n) return;
+  for (let row = 0; row < 2 * n; row++) if (row !== p && (x[row * words + w] & m) !== 0) rowMul(tab, row, p);
+  copyRow(tab, p, p - n);
+  clearRow(tab, p);
+  z[p * words + w] = m;
+  r[p] = outcome;
+}
+
+/**
+ * Computational-basis support of the state: measuring every qubit gives `offset` XOR any
+ * combination of the X parts of stabilizers n..n+rank-1 of `gens`, each outcome equally
+ * likely. `gens` is a copy with the stabilizers reduced so those X parts are independent
+ * and the remaining stabilizers are Z-only.
+ */
+function tableauSupport(tab: Tableau): { offset: Uint32Array; gens: Tableau; rank: number } {
+  const { n, words } = tab;
+  // a reference outcome: measure everything, taking 0 whenever the result is random
+  const ref = copyTableau(tab);
+  const offset = new Uint32Array(words);
+  for (let q = 0; q < n; q++) {
+    const e = tableauExpectation(ref, [{ qubit: q, pauli: "Z" }]);
+    if (e === 0) tableauCollapse(ref, q, 0);
+    else if (e < 0) offset[q >> 5] |= 1 << (q & 31);
+  }
+  const gens = copyTableau(tab);
+  let rank = 0;
+  for (let q = 0; q < n && rank < n; q++) {
+    const w = q >> 5, m = 1 << (q & 31);
+    const pivot = n + rank;
+    let p = pivot;
+    while (p < 2 * n && (gens.x[p * words + w] & m) === 0) p++;
+    if (p === 2 * n) continue;
+    if (p !== pivot) {
+      copyRow(gens, p, 2 * n);
+      copyRow(gens, pivot, p);
+      copyRow(gens, 2 * n, pivot);
+    }
+    for (let row = n; row < 2 * n; row++) {
+      if (row !== pivot && (gens.x[row * words + w] & m) !== 0) rowMul(gens, row, pivot);
+    }
+    rank++;
+  }
+  return { offset, gens, rank };
+}
+
+/**
+ * Amplitudes of a stabilizer state (n ≤ 31, one word per row). The state is proportional to
+ * the sum of g|offset⟩ over the stabilizer group; Z-only elements fix |offset⟩, so it is
+ * enough to walk the 2^rank products of the X-independent generators in Gray-code order.
+ * The tableau carries no global phase, so the |offset⟩ amplitude comes out real and positive.
+ */
+function tableauState(tab: Tableau): State {
+  const { n } = tab;
+  const { offset, gens, rank } = tableauSupport(tab);
+  const x0 = offset[0];
+  const st = new Float64Array(2 << n);
+  const scale = Math.sqrt(2 ** -rank);
+  // running product i^e·X^xm·Z^zm (Y = iXZ, and Z^a·X^b = (−1)^(a·b)·X^b·Z^a)
+  let e = 0, xm = 0, zm = 0;
+  for (let k = 0; k < 2 ** rank; k++) {
+    if (k > 0) {
+      const row = n + 31 - Math.clz32(k & -k);
+      const gx = gens.x[row], gz = gens.z[row];
+      e = (e + 2 * gens.r[row] + popcount(gx & gz) + 2 * popcount(zm & gx)) & 3;
+      xm ^= gx;
+      zm ^= gz;
+    }
+    // X^xm·Z^zm|x0⟩ = (−1)^(zm·x0)|x0 ⊕ xm⟩
+    const phase = (e + 2 * popcount(zm & x0)) & 3;
+    const i = (x0 ^ xm) >>> 0;
+    st[2 * i] = phase === 0 ? scale : phase === 2 ? -scale : 0;
+    st[2 * i + 1] = phase === 1 ? scale : phase === 3 ? -scale : 0;
+  }
+  return st;
+}
+
+// Draws computational-basis outcomes of a stabilizer state into `out` (one bit per qubit).
+function tableauSampler(tab: Tableau, random: Random): (out: Uint32Array) => void {
+  const { offset, gens, rank } = tableauSupport(tab);
+  const flips = Array.from({ length: rank }, (_, k) => gens.x.subarray(rowIndex(gens, tab.n + k), rowIndex(gens, tab.n + k + 1)));
+  return (out) => {
+    out.set(offset);
+    for (const f of flips) {
+      if (random() < 0.5) continue;
+      for (let w = 0; w < f.length; w++) out[w] ^= f[w];
+    }
+  };
+}
+
+function stabilizerBackend(n: number): Backend<Tableau> {
+  const dense = n <= STATEVECTOR_MAX_QUBITS;
+  return {
+    info: {
+      kind: "stabilizer",
+      reason:
+        "Every gate is Clifford (H, S, CX, Paulis, quarter-turn rotations), so a stabilizer tableau tracks the state. " +
+        "A tableau has no global phase: amplitudes and phase colours are shown up to one.",
+    },
+    init: () => newTableau(n),
+    copy: copyTableau,
+    apply: (tab, g) => {
+      for (const op of lowerClifford(g) ?? []) applyClifford(tab, op);
+    },
+    prob1: (tab, q) => (1 - tableauExpectation(tab, [{ qubit: q, pauli: "Z" }])) / 2,
+    collapse: tableauCollapse,
+    readoutError: () => 0,
+    branchSize: dense ? 1 << n : 2 * (2 * n + 1) * ((n + 31) >> 5),
+    output: (tab) => {
+      if (!dense) return { state: null, probs: null, tableau: tab };
+      const state = tableauState(tab);
+      return { state, probs: probsFromState(state), tableau: tab };
+    },
+  };
+}
+
+// One measurement history: the collapsed state it leads to (with its outcome distribution),
+// its probability and the classical bits written so far (bit b of `clbits` is c[b]).
+type Branch = { weight: number; clbits: bigint } & BranchOutput;
+
+// A measurement whose outcome is only read at the very end (see terminalMeasurements).
+type Readout = { qubit: number; cbit: number };
+
+// Above this many branches, mid-circuit measurements pick one outcome at random instead of
+// splitting, so the branch list becomes an unbiased Monte Carlo sample of trajectories.
+// Large registers split less: all branches together hold at most BRANCH_AMPLITUDES amplitudes.
+const MAX_BRANCHES = 256;
+const BRANCH_AMPLITUDES = 1 << 24;
+
+export const measuredBit = (g: Gate) => g.cbit ?? g.targets[0];
+
+/**
+ * Rotations that turn an X or Y measurement into the usual Z one: `before` maps the basis
+ * onto Z, `after` maps it back once the qubit has collapsed. Both are empty for Z.
+ */
+export function basisChange(g: Gate): { before: Gate[]; after: Gate[] } {
+  const q = g.targets[0];
+  const gate = (type: GateType, k: number): Gate => ({ id: `${g.id}:${k}`, type, targets: [q], condition: g.condition });
+  if (g.basis === "X") return { before: [gate("H", 0)], after: [gate("H", 1)] };
+  if (g.basis === "Y") return { before: [gate("SDG", 0), gate("H", 1)], after: [gate("H", 2), gate("S", 3)] };
+  return { before: [], after: [] };
+}
+
+const conditionHolds = (cond: Condition | undefined, clbits: bigint) =>
+  !cond || cond.bits.reduce((v, b, k) => v | (((clbits >> BigInt(b)) & 1n) << BigInt(k)), 0n) === BigInt(cond.value);
+
+/**
+ * Ids of MEASURE gates that nothing later depends on: no later gate touches the qubit, reads
+ * the classical bit in a condition, or overwrites it. Those can be read from the final state
+ * instead of collapsing mid-circuit, which keeps the usual "measure everything at the end"
+ * circuit to a single branch.
+ */
+function terminalMeasurements(circ: Circuit): Set<string> {
+  const terminal = new Set<string>();
+  const touchedLater = new Set<number>();
+  const clbitsUsedLater = new Set<number>();
+  for (let t = circ.moments.length - 1; t >= 0; t--) {
+    const gates = circ.moments[t].gates;
+    for (let k = gates.length - 1; k >= 0; k--) {
+      const g = gates[k];
+      const independent = !touchedLater.has(g.targets[0]) && !clbitsUsedLater.has(measuredBit(g));
+      if (g.type === "MEASURE" && !g.condition && independent) {
+        terminal.add(g.id);
+      }
+      for (const q of gateQubits(g)) touchedLater.add(q);
+      for (const b of g.condition?.bits ?? []) clbitsUsedLater.add(b);
+      if (g.type === "MEASURE") clbitsUsedLater.add(measuredBit(g));
+    }
+  }
+  return terminal;
+}
+
+export type SimResult = {
+  backend: BackendInfo;
+  probs: Float64Array | null; // null when a stabilizer run is too large to expand
+  state: State | null;
+  branches: Branch[];
+  readouts: Readout[];
+  readoutError: number[];
+};
+
+/**
+ * Simulate with projective measurement. Mid-circuit measurements split the run into
+ * weighted branches, each collapsed and renormalised; terminal ones become `readouts`
+ * that sampleCounts resolves per shot. Each branch carries its own classical bits, so
+ * conditioned gates fire exactly in the shots whose bits match. `probs` is the
+ * outcome-averaged final distribution and `state` the final amplitudes when there is a
+ * single pure branch. A noise model selects the density-matrix backend; otherwise
+ * all-Clifford circuits run on the stabilizer tableau and the rest on the statevector.
+ * A `trace` array receives the result after every moment (trace[0] is the initial
+ * state), which is what the step-through debugger scrubs. `random` picks the outcomes of
+ * measurements past the branch limit.
+ */
+export function simulateCircuit(
+  circ: Circuit,
+  noise?: NoiseModel,
+  trace?: SimResult[],
+  random: Random = Math.random
+): SimResult {
+  circ = inlineComposites(circ);
+  const n = circ.nQubits;
+  if (noise) return runBranches(circ, densityMatrixBackend(n, noise), random, trace);
+  const blocker = firstNonClifford(circ);
+  if (!blocker) return runBranches(circ, stabilizerBackend(n), random, trace);
+  const why = `${blocker.g.type} at t${blocker.t} is not a Clifford gate`;
+  if (n > STATEVECTOR_MAX_QUBITS) {
+    throw new Error(`${why}, and statevector simulation is limited to ${STATEVECTOR_MAX_QUBITS} qubits`);
+  }
+  return runBranches(circ, statevectorBackend(n, `${why}, so the full statevector is simulated.`), random, trace);
+}
+
+function runBranches<S>(circ: Circuit, backend: Backend<S>, random: Random, trace?: SimResult[]): SimResult {
+  type Run = { state: S; weight: number; clbits: bigint };
+  const terminal = terminalMeasurements(circ);
+  const readouts: Readout[] = [];
+  let branches: Run[] = [{ state: backend.init(), weight: 1, clbits: 0n }];
+  const maxBranches = Math.min(MAX_BRANCHES, Math.max(1, BRANCH_AMPLITUDES / backend.branchSize));
+
+  const result = (bs: Run[], rs: Readout[]): SimResult => {
+    const branches = bs.map((b): Branch => ({ ...backend.output(b.state), weight: b.weight, clbits: b.clbits }));
+    let probs = branches[0].probs;
+    if (bs.length > 1 && probs) {
+      const sum = new Float64Array(probs.length);
+      for (const b of branches) b.probs?.forEach((p, i) => (sum[i] += b.weight * p));
+      probs = sum;
+    }
+    const readoutError = Array.from({ length: circ.nQubits }, (_, q) => backend.readoutError(q));
+    // the final statevector, when the run stayed pure (no noise, no mid-circuit branching)
+    const state = backend.info.kind !== "density-matrix" && bs.length === 1 ? branches[0].state : null;
+    return { backend: backend.info, probs, state, branches, readouts: rs, readoutError };
+  };
+  // snapshots copy the states, since later gates keep updating them in place
+  const snapshot = () => {
+    if (trace) trace.push(result(branches.map((b) => ({ ...b, state: backend.copy(b.state) })), readouts.slice()));
+  };
+
+  snapshot();
+  for (const m of circ.moments) {
+    for (const g of m.gates) {
+      if (g.type !== "MEASURE") {
+        for (const b of branches) if (conditionHolds(g.condition, b.clbits)) backend.apply(b.state, g);
+        continue;
+      }
+      const q = g.targets[0];
+      const cb = BigInt(measuredBit(g));
+      const { before, after } = basisChange(g);
+      for (const r of before) for (const b of branches) if (conditionHolds(r.condition, b.clbits)) backend.apply(b.state, r);
+      // a terminal X/Y readout leaves the final state rotated into the measured basis
+      if (terminal.has(g.id)) {
+        readouts.push({ qubit: q, cbit: measuredBit(g) });
+        continue;
+      }
+      const split = branches.length * 2 <= maxBranches;
+      const next: Run[] = [];
+      for (const b of branches) {
+        if (!conditionHolds(g.condition, b.clbits)) {
+          next.push(b);
+          continue;
+        }
+        const p1 = backend.prob1(b.state, q);
+        const outcomes: (0 | 1)[] = split ? [0, 1] : [random() < p1 ? 1 : 0];
+        const flip = backend.readoutError(q);
+        for (const o of outcomes) {
+          const p = o ? p1 : 1 - p1;
+          if (p < 1e-12) continue;
+          const st = outcomes.length > 1 ? backend.copy(b.state) : b.state;
+          backend.collapse(st, q, o);
+          for (const r of after) backend.apply(st, r);
+          const weight = outcomes.length > 1 ? b.weight * p : b.weight;
+          // a readout error records the wrong bit but leaves the collapsed state as measured;
+          // that branch gets its own copy, since conditioned gates may now treat it differently
+          for (const [rec, w] of [[o, 1 - flip], [1 - o, flip]] as const) {
+            if (w <= 0) continue;
+            const clbits = rec ? b.clbits | (1n << cb) : b.clbits & ~(1n << cb);
+            next.push({ state: rec === o ? st : backend.copy(st), weight: weight * w, clbits });
+          }
+        }
+      }
+      branches = next;
+    }
+    snapshot();
+  }
+
+  return result(branches, readouts);
+}
+
+export type Bloch = { x: number; y: number; z: number };
+
+// Bloch vector of qubit q, tracing the other qubits out of a statevector or of a flat
+// density matrix (index row | col << n). Uses ρ_q = [[ρ00, ρ01], [ρ10, ρ11]].
+function blochVector(st: State, n: number, q: number): Bloch {
+  const bit = 1 << q;
+  const density = st.length !== 2 << n;
+  let p0 = 0, p1 = 0, re = 0, im = 0; // ρ00, ρ11 and ρ01 = re + i·im
+  for (let i = 0; i < 1 << n; i++) {
+    if (i & bit) continue;
+    const j = i | bit;
+    if (density) {
+      const off = 2 * (i | (j << n));
+      p0 += st[2 * (i | (i << n))];
+      p1 += st[2 * (j | (j << n))];
+      re += st[off];
+      im += st[off + 1];
+    } else {
+      // ψ_i · conj(ψ_j)
+      const ar = st[2 * i], ai = st[2 * i + 1], br = st[2 * j], bi = st[2 * j + 1];
+      p0 += ar * ar + ai * ai;
+      p1 += br * br + bi * bi;
+      re += ar * br + ai * bi;
+      im += ai * br - ar * bi;
+    }
+  }
+  return { x: 2 * re, y: -2 * im, z: p0 - p1 };
+}
+
+const tableauBloch = (tab: Tableau, q: number): Bloch => ({
+  x: tableauExpectation(tab, [{ qubit: q, pauli: "X" }]),
+  y: tableauExpectation(tab, [{ qubit: q, pauli: "Y" }]),
+  z: tableauExpectation(tab, [{ qubit: q, pauli: "Z" }]),
+});
+
+// Per-qubit Bloch vectors of a simulation, averaged over its measurement branches.
+export function blochVectors(sim: SimResult, n: number): Bloch[] {
+  const total = sim.branches.reduce((acc, b) => acc + b.weight, 0);
+  return Array.from({ length: n }, (_, q) =>
+    sim.branches.reduce(
+      (acc, b) => {
+        const v = b.tableau ? tableauBloch(b.tableau, q) : blochVector(b.state, n, q);
+        const w = b.weight / total;
+        return { x: acc.x + w * v.x, y: acc.y + w * v.y, z: acc.z + w * v.z };
+      },
+      { x: 0, y: 0, z: 0 }
+    )
+  );
+}
+
+// Purity Tr(ρ²) of a single qubit from its Bloch vector: 1 for pure states, 1/2 when maximally mixed.
+export const blochPurity = (v: Bloch) => (1 + v.x * v.x + v.y * v.y + v.z * v.z) / 2;
+
+/* ================= Pauli observables ================= */
+
+/**
+ * ⟨P⟩ of a Pauli string on a statevector or flat density matrix. With Y = iXZ,
+ * P|k⟩ = i^#Y·(-1)^popcount(k & zm)·|k ^ xm⟩, so ⟨ψ|P|ψ⟩ pairs each ψ_k with ψ_{k^xm}
+ * and Tr(Pρ) sums phase_k·ρ[k, k^xm].
+ */
+function denseExpectation(st: State, n: number, ops: PauliOp[]): number {
+  let xm = 0, zm = 0, ny = 0;
+  for (const { qubit: q, pauli } of ops) {
+    if (pauli !== "Z") xm |= 1 << q;
+    if (pauli !== "X") zm |= 1 << q;
+    if (pauli === "Y") ny++;
+  }
+  const density = st.length !== 2 << n;
+  let re = 0, im = 0;
+  for (let k = 0; k < 1 << n; k++) {
+    const sign = popcount(k & zm) & 1 ? -1 : 1;
+    const j = k ^ xm;
+    if (density) {
+      const off = 2 * (k | (j << n));
+      re += sign * st[off];
+      im += sign * st[off + 1];
+    } else {
+      // conj(ψ_j)·ψ_k
+      const ar = st[2 * j], ai = st[2 * j + 1], br = st[2 * k], bi = st[2 * k + 1];
+      re += sign * (ar * br + ai * bi);
+      im += sign * (ar * bi - ai * br);
+    }
+  }
+  // times i^#Y; the imaginary part cancels for a Hermitian P
+  return [re, -im, -re, im][ny & 3];
+}
+
+// Expectation value of a Pauli string (identity on unlisted qubits), averaged over the branches.
+export function expectation(sim: SimResult, n: number, ops: PauliOp[]): number {
+  const total = sim.branches.reduce((acc, b) => acc + b.weight, 0);
+  return sim.branches.reduce((acc, b) => {
+    const e = b.tableau ? tableauExpectation(b.tableau, ops) : denseExpectation(b.state, n, ops);
+    return acc + (b.weight / total) * e;
+  }, 0);
+}
+
+// One term c·P of an observable; an empty `ops` list is the identity.
+export type PauliTerm = { coeff: number; ops: PauliOp[] };
+
+const COEFF_RE = /^(\d*\.?\d+(?:E[+-]?\d+)?)[*·]?/;
+
+/**
+ * Parse a sum of weighted Pauli strings such as "0.5 X0 X1 - Y0 Y1 + 2". A string is either
+ * dense, one letter per qubit with q0 last ("IXZ"), or indexed factors ("X0 Z2", "X0*Z2",
+ * "X0⊗Z2"). Throws an Error describing the first bad term.
+ */
+export function parseObservable(text: string, nQubits: number): PauliTerm[] {
+  const src = text.replace(/\s+/g, "").toUpperCase();
+  if (!src) throw new Error("empty observable");
+  // split before each + or -, except the sign of an exponent such as 1e-3
+  return src.split(/(?<!\dE)(?=[+-])/).map((raw) => {
+    const sign = raw[0] === "-" ? -1 : 1;
+    let body = raw.replace(/^[+-]/, "");
+    const coeff = COEFF_RE.exec(body);
+    if (coeff) body = body.slice(coeff[0].length);
+    const c = sign * (coeff ? parseFloat(coeff[1]) : 1);
+    body = body.replace(/[*·⊗]/g, "");
+    if (!body) {
+      if (!coeff) throw new Error(`missing term in "${text.trim()}"`);
+      return { coeff: c, ops: [] };
+    }
+    const ops: PauliOp[] = [];
+    if (/^[IXYZ]+$/.test(body)) {
+      if (body.length !== nQubits) {
+        throw new Error(`"${body}" has ${body.length} letters, the register has ${nQubits} qubits (or index them: X0 Z1)`);
+      }
+      [...body].forEach((p, k) => p !== "I" && ops.push({ qubit: nQubits - 1 - k, pauli: p as Pauli }));
+    } else if (/^([IXYZ]\d+)+$/.test(body)) {
+      const seen = new Set<number>();
+      for (const [, p, digits] of body.matchAll(/([IXYZ])(\d+)/g)) {
+        const q = parseInt(digits);
+        if (q >= nQubits) throw new Error(`qubit ${q} is out of range 0–${nQubits - 1}`);
+        if (seen.has(q)) throw new Error(`qubit ${q} appears twice in "${raw}"`);
+        seen.add(q);
+        if (p !== "I") ops.push({ qubit: q, pauli: p as Pauli });
+      }
+    } else {
+      throw new Error(`cannot read "${raw}": use a Pauli string like XZI or indexed factors like X0 Z2`);
+    }
+    return { coeff: c, ops };
+  });
+}
+
+// ⟨O⟩ for a sum of weighted Pauli strings.
+export const observableExpectation = (sim: SimResult, n: number, terms: PauliTerm[]) =>
+  terms.reduce((acc, { coeff, ops }) => acc + coeff * (ops.length ? expectation(sim, n, ops) : 1), 0);
+
+/* ================= Entanglement metrics ================= */
+// Largest subsystem whose reduced density matrix is built and diagonalised (64×64).
+export const REDUCED_MAX_QUBITS = 6;
+// Tracing a dense register costs 2^(n + k) multiply-adds for a k-qubit subsystem.
+const REDUCE_MAX_LOG_COST = 28;
+const SCHMIDT_LIST_MAX = 64;
+
+// Complex d×d matrices below are interleaved like State, entry (r, c) at index r + c·d,
+// which matches the density-matrix layout row | col << n.
+function matMul(a: State, b: State, d: number): State {
+  const out = new Float64Array(2 * d * d);
+  for (let r = 0; r < d; r++) {
+    for (let c = 0; c < d; c++) {
+      let re = 0, im = 0;
+      for (let k = 0; k < d; k++) {
+        const x = 2 * (r + k * d), y = 2 * (k + c * d);
+        re += a[x] * b[y] - a[x + 1] * b[y + 1];
+        im += a[x] * b[y + 1] + a[x + 1] * b[y];
+      }
+      out[2 * (r + c * d)] = re;
+      out[2 * (r + c * d) + 1] = im;
+    }
+  }
+  return out;
+}
+
+/**
+ * Eigenvalues and eigenvectors (the columns of `vectors`) of a Hermitian matrix by cyclic
+ * Jacobi sweeps: each step turns the pivot a_pq real with a phase on column q, then zeroes
+ * it with a real plane rotation.
+ */
+function hermitianEigen(m: State, d: number): { values: Float64Array; vectors: State } {
+  const a = m.slice();
+  const v = new Float64Array(2 * d * d);
+  for (let i = 0; i < d; i++) v[2 * (i + i * d)] = 1;
+  const at = (r: number, c: number) => 2 * (r + c * d);
+  // multiply column q by z and row q by conj(z), a similarity transform for |z| = 1
+  const phase = (q: number, zr: number, zi: number) => {
+    for (let k = 0; k < d; k++) {
+      for (const [mat, i] of [[a, at(k, q)], [v, at(k, q)]] as const) {
+        const re = mat[i], im = mat[i + 1];
+        mat[i] = re * zr - im * zi;
+        mat[i + 1] = re * zi + im * zr;
+      }
+      const j = at(q, k), re = a[j], im = a[j + 1];
+      a[j] = re * zr + im * zi;
+      a[j + 1] = im * zr - re * zi;
+    }
+  };
+  // A ← RᵀAR, V ← VR for the rotation with R_pp = R_qq = c, R_pq = s, R_qp = −s
+  const rotate = (p: number, q: number, c: number, s: number) => {
+    for (let k = 0; k < d; k++) {
+      for (const mat of [a, v]) {
+        const i = at(k, p), j = at(k, q);
+        for (let h = 0; h < 2; h++) {
+          const x = mat[i + h], y = mat[j + h];
+          mat[i + h] = c * x - s * y;
+          mat[j + h] = s * x + c * y;
+        }
+      }
+    }
+    for (let k = 0; k < d; k++) {
+      const i = at(p, k), j = at(q, k);
+      for (let h = 0; h < 2; h++) {
+        const x = a[i + h], y = a[j + h];
+        a[i + h] = c * x - s * y;
+        a[j + h] = s * x + c * y;
+      }
+    }
+  };
+  for (let sweep = 0; sweep < 64; sweep++) {
+    let off = 0;
+    for (let p = 0; p < d; p++) for (let q = p + 1; q < d; q++) off += a[at(p, q)] ** 2 + a[at(p, q) + 1] ** 2;
+    if (off < 1e-26) break;
+    for (let p = 0; p < d; p++) {
+      for (let q = p + 1; q < d; q++) {
+        const re = a[at(p, q)], im = a[at(p, q) + 1];
+        const mag = Math.hypot(re, im);
+        if (mag < 1e-300) continue;
+        phase(q, re / mag, -im / mag);
+        const theta = (a[at(q, q)] - a[at(p, p)]) / (2 * mag);
+        const t = (theta >= 0 ? 1 : -1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        rotate(p, q, c, t * c);
+      }
+    }
+  }
+  return { values: Float64Array.from({ length: d }, (_, i) => a[at(i, i)]), vectors: v };
+}
+
+// ρ_A = 2^-k Σ_P ⟨P⟩ P over the 4^k Pauli strings on `qubits` (digit 0..3 = I, X, Y, Z).
+function tableauReduced(tab: Tableau, qubits: number[], out: State, weight: number) {
+  const k = qubits.length, d = 1 << k;
+  for (let p = 0; p < 1 << (2 * k); p++) {
+    const ops: PauliOp[] = [];
+    let xm = 0, zm = 0, ny = 0;
+    for (let j = 0; j < k; j++) {
+      const digit = (p >> (2 * j)) & 3;
+      if (!digit) continue;
+      const pauli = (["X", "Y", "Z"] as const)[digit - 1];
+      ops.push({ qubit: qubits[j], pauli });
+      if (pauli !== "Z") xm |= 1 << j;
+      if (pauli !== "X") zm |= 1 << j;
+      if (pauli === "Y") ny++;
+    }
+    const e = ops.length ? tableauExpectation(tab, ops) : 1;
+    if (!e) continue;
+    // P|c⟩ = i^#Y·(-1)^popcount(c & zm)·|c ^ xm⟩
+    const [pr, pi] = [[1, 0], [0, 1], [-1, 0], [0, -1]][ny & 3];
+    for (let c = 0; c < d; c++) {
+      const s = ((popcount(c & zm) & 1 ? -1 : 1) * weight * e) / d;
+      const i = 2 * ((c ^ xm) + c * d);
+      out[i] += s * pr;
+      out[i + 1] += s * pi;
+    }
+  }
+}
+
+/**
+ * Reduced density matrix of `qubits` (qubits[j] becomes bit j), tracing out the rest of every
+ * branch and averaging by weight. Tableau branches are expanded in Pauli strings.
+ */
+export function reducedDensityMatrix(sim: SimResult, n: number, qubits: number[]): State {
+  const k = qubits.length, d = 1 << k;
+  if (k > REDUCED_MAX_QUBITS) throw new Error(`subsystems are limited to ${REDUCED_MAX_QUBITS} qubits`);
+  const env = Array.from({ length: n }, (_, q) => q).filter((q) => !qubits.includes(q));
+  const local = Array.from({ length: d }, (_, a) => qubits.reduce((i, q, j) => i | (((a >> j) & 1) << q), 0));
+  const out = new Float64Array(2 * d * d);
+  const total = sim.branches.reduce((acc, b) => acc + b.weight, 0);
+  const m = new Float64Array(2 * d);
+  for (const b of sim.branches) {
+    const w = b.weight / total;
+    if (b.tableau) {
+      tableauReduced(b.tableau, qubits, out, w);
+      continue;
+    }
+    if (n + k > REDUCE_MAX_LOG_COST) throw new Error(`tracing out a ${n}-qubit statevector is too slow here; pick fewer qubits`);
+    const st = b.state, density = st.length !== 2 << n;
+    for (let e = 0; e < 1 << env.length; e++) {
+      const base = env.reduce((i, q, j) => i | (((e >> j) & 1) << q), 0);
+      if (density) {
+        // ρ_A[a, a'] += ρ[(a, e), (a', e)]
+        for (let r = 0; r < d; r++) {
+          for (let c = 0; c < d; c++) {
+            const i = 2 * ((base | local[r]) | ((base | local[c]) << n));
+            out[2 * (r + c * d)] += w * st[i];
+            out[2 * (r + c * d) + 1] += w * st[i + 1];
+          }
+        }
+        continue;
+      }
+      // ρ_A += m·m† for the slice m_a = ψ[(a, e)]
+      for (let a = 0; a < d; a++) {
+        m[2 * a] = st[2 * (base | local[a])];
+        m[2 * a + 1] = st[2 * (base | local[a]) + 1];
+      }
+      for (let r = 0; r < d; r++) {
+        const mr = m[2 * r], mi = m[2 * r + 1];
+        if (!mr && !mi) continue;
+        for (let c = 0; c < d; c++) {
+          out[2 * (r + c * d)] += w * (mr * m[2 * c] + mi * m[2 * c + 1]);
+          out[2 * (r + c * d) + 1] += w * (mi * m[2 * c] - mr * m[2 * c + 1]);
+        }
+      }
+    }
+  }
+  return out;
+}
+
+/**
+ * Schmidt rank S of a stabilizer state across side A: the stabilizer generators restricted to
+ * A's columns span 2^(|A| + S) Paulis, so S = rank − |A| (Fattal et al. 2004).
+ */
+function tableauEntropy(tab: Tableau, side: number[]): number {
+  const { n, words, x, z } = tab;
+  const width = Math.ceil((2 * side.length) / 32);
+  const rows = Array.from({ length: n }, (_, i) => {
+    const row = new Uint32Array(width);
+    side.forEach((q, j) => {
+      const k = (n + i) * words + (q >> 5), bit = 1 << (q & 31);
+      if (x[k] & bit) row[j >> 5] |= 1 << (j & 31);
+      if (z[k] & bit) row[(j + side.length) >> 5] |= 1 << ((j + side.length) & 31);
+    });
+    return row;
+  });
+  let rank = 0;
+  for (let col = 0; col < 2 * side.length && rank < n; col++) {
+    const w = col >> 5, bit = 1 << (col & 31);
+    const pivot = rows.findIndex((r, i) => i >= rank && r[w] & bit);
+    if (pivot < 0) continue;
+    [rows[rank], rows[pivot]] = [rows[pivot], rows[rank]];
+    for (let i = 0; i < n; i++) {
+      if (i !== rank && rows[i][w] & bit) for (let k = 0; k < width; k++) rows[i][k] ^= rows[rank][k];
+    }
+    rank++;
+  }
+  return rank - side.length;
+}
+
+export type SubsystemEntropy = {
+  entropy: number; // von Neumann entropy S(ρ_A) in bits
+  purity: number; // Tr ρ_A²
+  schmidt: number[] | null; // pure states only: the largest Schmidt coefficients, descending
+  schmidtRank: number | null;
+};
+
+/**
+ * Entropy of side A of a bipartition. For a pure state this is the entanglement entropy and
+ * comes with the Schmidt decomposition; the smaller side is traced, since both sides share
+ * the spectrum. A pure stabilizer state needs no matrix at all: its 2^S Schmidt coefficients
+ * are all 2^(−S/2). A mixed state is reduced on A itself.
+ */
+export function subsystemEntropy(sim: SimResult, n: number, side: number[]): SubsystemEntropy {
+  if (!side.length || side.length >= n) throw new Error("a bipartition needs qubits on both sides");
+  const pure = sim.branches.length === 1 && sim.backend.kind !== "density-matrix";
+  const tab = sim.branches[0].tableau;
+  if (pure && tab) {
+    const s = tableauEntropy(tab, side);
+    const rank = 2 ** s;
+    return { entropy: s, purity: 2 ** -s, schmidt: Array(Math.min(rank, SCHMIDT_LIST_MAX)).fill(2 ** (-s / 2)), schmidtRank: rank };
+  }
+  let qubits = side;
+  if (pure && side.length > n / 2) qubits = Array.from({ length: n }, (_, q) => q).filter((q) => !side.includes(q));
+  if (qubits.length > REDUCED_MAX_QUBITS) {
+    throw new Error(
+      pure
+        ? `both sides have more than ${REDUCED_MAX_QUBITS} qubits`
+        : `the state is mixed, so side A itself is reduced: pick at most ${REDUCED_MAX_QUBITS} qubits`
+    );
+  }
+  const d = 1 << qubits.length;
+  const rho = reducedDensityMatrix(sim, n, qubits);
+  const values = [...hermitianEigen(rho, d).values].filter((l) => l > 1e-12).sort((p, q) => q - p);
+  const entropy = values.reduce((acc, l) => acc - l * Math.log2(l), 0);
+  const purity = values.reduce((acc, l) => acc + l * l, 0);
+  if (!pure) return { entropy, purity, schmidt: null, schmidtRank: null };
+  return { entropy, purity, schmidt: values.slice(0, SCHMIDT_LIST_MAX).map(Math.sqrt), schmidtRank: values.length };
+}
+
+/**
+ * Wootters concurrence of qubits a and b: C = max(0, λ1 − λ2 − λ3 − λ4), with λ the
+ * descending square roots of the eigenvalues of √ρ·ρ̃·√ρ and ρ̃ = (Y⊗Y)ρ*(Y⊗Y).
+ */
+export function concurrence(sim: SimResult, n: number, a: number, b: number): number {
+  const rho = reducedDensityMatrix(sim, n, [a, b]);
+  const { values, vectors } = hermitianEigen(rho, 4);
+  // √ρ = V·diag(√λ)·V†
+  const sqrtRho = new Float64Array(32);
+  for (let r = 0; r < 4; r++) {
+    for (let c = 0; c < 4; c++) {
+      let re = 0, im = 0;
+      for (let k = 0; k < 4; k++) {
+        const s = Math.sqrt(Math.max(0, values[k]));
+        const x = 2 * (r + 4 * k), y = 2 * (c + 4 * k);
+        re += s * (vectors[x] * vectors[y] + vectors[x + 1] * vectors[y + 1]);
+        im += s * (vectors[x + 1] * vectors[y] - vectors[x] * vectors[y + 1]);
+      }
+      sqrtRho[2 * (r + 4 * c)] = re;
+      sqrtRho[2 * (r + 4 * c) + 1] = im;
+    }
+  }
+  // (Y⊗Y)|k⟩ = s_k|3 − k⟩ with s = (−1, 1, 1, −1)
+  const sign = [-1, 1, 1, -1];
+  const tilde = new Float64Array(32);
+  for (let r = 0; r < 4; r++) {
+    for (let c = 0; c < 4; c++) {
+      const i = 2 * (3 - r + 4 * (3 - c));
+      tilde[2 * (r + 4 * c)] = sign[r] * sign[c] * rho[i];
+      tilde[2 * (r + 4 * c) + 1] = -sign[r] * sign[c] * rho[i + 1];
+    }
+  }
+  const r = matMul(matMul(sqrtRho, tilde, 4), sqrtRho, 4);
+  const l = [...hermitianEigen(r, 4).values].map((mu) => Math.sqrt(Math.max(0, mu))).sort((p, q) => q - p);
+  return Math.max(0, l[0] - l[1] - l[2] - l[3]);
+}
+
+/**
+ * Vose's alias table over non-negative weights: each draw takes O(1) time and two uniform
+ * numbers, one picking a column and one choosing between the column and its alias.
+ */
+function aliasTable(weights: ArrayLike<number>): (random: Random) => number {
+  const N = weights.length;
+  let total = 0;
+  for (let i = 0; i < N; i++) total += weights[i];
+  const prob = new Float64Array(N);
+  const alias = new Int32Array(N);
+  // columns below the average fill the stack from the front, the others from the back
+  const work = new Int32Array(N);
+  let small = 0, large = N;
+  for (let i = 0; i < N; i++) {
+    prob[i] = (weights[i] * N) / total;
+    if (prob[i] < 1) work[small++] = i;
+    else work[--large] = i;
+  }
+  while (small > 0 && large < N) {
+    const s = work[--small], l = work[large];
+    alias[s] = l;
+    prob[l] -= 1 - prob[s];
+    if (prob[l] < 1) {
+      large++;
+      work[small++] = l;
+    }
+  }
+  // whatever is left is full up to rounding
+  for (let k = 0; k < small; k++) prob[work[k]] = 1;
+  for (let k = large; k < N; k++) prob[work[k]] = 1;
+  return (random) => {
+    const i = Math.floor(random() * N);
+    return random() < prob[i] ? i : alias[i];
+  };
+}
+
+// Draws computational-basis outcomes of a branch's final state into `out` (bit q is qubit q).
+function branchSampler(b: Branch, random: Random): (out: Uint32Array) => void {
+  if (b.tableau) return tableauSampler(b.tableau, random);
+  const draw = aliasTable(b.probs);
+  return (out) => {
+    out[0] = draw(random);
+  };
+}
+
+/**
+ * Sample `shots` runs over the measured classical bits only: each shot picks a measurement
+ * branch by weight, then draws the terminal readouts jointly from that branch's final
+ * state. Keys are c[n-1]…c[0]. A circuit without any MEASURE reads every qubit instead.
+ * The same seed always gives the same counts.
+ */
+export function sampleCounts(circ: Circuit, sim: SimResult, shots: number, seed: number): Record<string, number> {
+  const random = seededRandom(seed);
+  const counts: Record<string, number> = {};
+  const hasMeasure = circ.moments.some((m) => m.gates.some((g) => g.type === "MEASURE"));
+  const width = hasMeasure ? circ.nClbits : circ.nQubits;
+  const readouts: Readout[] = hasMeasure
+    ? sim.readouts
+    : Array.from({ length: circ.nQubits }, (_, q) => ({ qubit: q, cbit: q }));
+
+  const pickBranch = aliasTable(sim.branches.map((b) => b.weight));
+  const samplers: ((out: Uint32Array) => void)[] = []; // built on a branch's first shot
+  const outcome = new Uint32Array((circ.nQubits + 31) >> 5);
+  const masks = readouts.map((r) => 1n << BigInt(r.cbit));
+  for (let s = 0; s < shots; s++) {
+    const bi = pickBranch(random);
+    let bits = sim.branches[bi].clbits;
+    if (readouts.length) {
+      (samplers[bi] ??= branchSampler(sim.branches[bi], random))(outcome);
+      readouts.forEach((r, k) => {
+        const bit = ((outcome[r.qubit >> 5] >>> (r.qubit & 31)) & 1) ^ (random() < sim.readoutError[r.qubit] ? 1 : 0);
+        bits = bit ? bits | masks[k] : bits & ~masks[k];
+      });
+    }
+    const key = bits.toString(2).padStart(width, "0");
+    counts[key] = (counts[key] || 0) + 1;
+  }
+  return counts;
+}
+
+/* ================= Simulation requests (run off the main thread) ================= */
+export type SimRequest = { id: number; circuit: Circuit; shots: number; seed: number; noise?: NoiseModel; trace: boolean };
+
+// Everything the UI shows for one circuit; `noisy` and its counts only when a noise model was given.
+export type SimResponse = {
+  id: number;
+  circuit: Circuit; // the circuit these results belong to
+  ideal: SimResult;
+  counts: Record<string, number>;
+  noisy?: SimResult;
+  noisyCounts?: Record<string, number>;
+  bloch: Bloch[]; // of the noisy run when there is one
+  traces?: { ideal: SimResult[]; noisy: SimResult[] }; // per-moment results for the debugger
+};
+
+export function runSimulation({ id, circuit, shots, seed, noise, trace }: SimRequest): SimResponse {
+  const traces = trace ? { ideal: [] as SimResult[], noisy: [] as SimResult[] } : undefined;
+  const ideal = simulateCircuit(circuit, undefined, traces?.ideal, seededRandom(seed));
+  const noisy = noise && simulateCircuit(circuit, noise, traces?.noisy, seededRandom(seed));
+  return {
+    id,
+    circuit,
+    ideal,
+    counts: sampleCounts(circuit, ideal, shots, seed),
+    noisy,
+    noisyCounts: noisy && sampleCounts(circuit, noisy, shots, seed),
+    bloch: blochVectors(noisy ?? ideal, circuit.nQubits),
+    traces,
+  };
+}
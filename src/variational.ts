@@ -0,0 +1,135 @@
+/*
+ * Parameter sweeps and variational optimisation over the circuit's named angle symbols
+ * (Gate.symbols). Every evaluation is a full simulateCircuit run with the symbols assigned.
+ * Jobs run in variationalWorker.ts and stream one point per sample or iteration back.
+ */
+import { assignSymbols, circuitSymbols, observableExpectation, seededRandom, simulateCircuit } from "./simulator.ts";
+import type { Circuit, NoiseModel, PauliTerm, Random } from "./simulator.ts";
+
+// What a sweep plots or an optimiser minimises: one basis-state probability or ⟨O⟩.
+export type Target = { kind: "probability"; index: number } | { kind: "observable"; terms: PauliTerm[] };
+
+export type OptimizerMethod = "nelder-mead" | "spsa";
+
+export type VariationalRequest = { id: number; circuit: Circuit; noise?: NoiseModel; seed: number; target: Target } & (
+  | { job: "sweep"; symbol: string; from: number; to: number; steps: number }
+  | { job: "optimize"; method: OptimizerMethod; symbols: string[]; maxIter: number }
+);
+
+// A sweep sample (x = symbol value) or an optimiser iteration (x = iteration, `values` the
+// symbols it evaluated), then "done" or "error".
+export type VariationalMessage =
+  | { id: number; kind: "point"; x: number; y: number; values?: Record<string, number> }
+  | { id: number; kind: "done" }
+  | { id: number; kind: "error"; error: string };
+
+type Point = { x: number; y: number; values?: Record<string, number> };
+
+/* ================= Cost ================= */
+function evaluate(req: VariationalRequest, values: Record<string, number>): number {
+  const circ = assignSymbols(req.circuit, values);
+  // the same seed every time, so Monte Carlo branches do not add noise between evaluations
+  const sim = simulateCircuit(circ, req.noise, undefined, seededRandom(req.seed));
+  const { target } = req;
+  if (target.kind === "observable") return observableExpectation(sim, circ.nQubits, target.terms);
+  if (!sim.probs) throw new Error("Basis-state probabilities are not expanded for a register this large");
+  return sim.probs[target.index];
+}
+
+/* ================= Sweep ================= */
+function sweep(req: VariationalRequest & { job: "sweep" }, emit: (p: Point) => void) {
+  const { symbol, from, to, steps } = req;
+  for (let k = 0; k < steps; k++) {
+    const x = steps > 1 ? from + ((to - from) * k) / (steps - 1) : from;
+    emit({ x, y: evaluate(req, { [symbol]: x }) });
+  }
+}
+
+/* ================= Optimisers ================= */
+type Cost = (x: number[]) => number;
+
+/**
+ * Nelder–Mead downhill simplex with the standard coefficients (reflect 1, expand 2,
+ * contract ½, shrink ½). Reports the best vertex after every iteration.
+ */
+function nelderMead(f: Cost, x0: number[], maxIter: number, report: (x: number[], fx: number) => void) {
+  const d = x0.length;
+  const step = Math.PI / 8;
+  let simplex = [x0, ...x0.map((_, i) => x0.map((v, j) => (i === j ? v + step : v)))].map((x) => ({ x, f: f(x) }));
+  const along = (a: number[], b: number[], t: number) => a.map((v, i) => v + t * (b[i] - v));
+  for (let it = 0; it < maxIter; it++) {
+    simplex.sort((a, b) => a.f - b.f);
+    const best = simplex[0], worst = simplex[d], second = simplex[d - 1];
+    report(best.x, best.f);
+    const size = Math.max(...simplex.map((v) => Math.max(...v.x.map((c, i) => Math.abs(c - best.x[i])))));
+    if (worst.f - best.f < 1e-10 && size < 1e-6) break;
+    const centroid = x0.map((_, i) => simplex.slice(0, d).reduce((acc, v) => acc + v.x[i], 0) / d);
+    const reflected = along(centroid, worst.x, -1);
+    const fr = f(reflected);
+    if (fr < best.f) {
+      const expanded = along(centroid, worst.x, -2);
+      const fe = f(expanded);
+      simplex[d] = fe < fr ? { x: expanded, f: fe } : { x: reflected, f: fr };
+    } else if (fr < second.f) {
+      simplex[d] = { x: reflected, f: fr };
+    } else {
+      // contract towards the better of the worst vertex and its reflection
+      const outside = fr < worst.f;
+      const contracted = along(centroid, outside ? reflected : worst.x, 0.5);
+      const fc = f(contracted);
+      if (fc < (outside ? fr : worst.f)) {
+        simplex[d] = { x: contracted, f: fc };
+      } else {
+        simplex = simplex.map((v, k) => {
+          if (k === 0) return v;
+          const x = along(best.x, v.x, 0.5);
+          return { x, f: f(x) };
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Simultaneous-perturbation stochastic approximation: every iteration estimates the whole
+ * gradient from two evaluations along a random ±1 direction. Gains follow Spall's decay
+ * exponents; the step size is calibrated so the first steps move about 0.2 rad.
+ */
+function spsa(f: Cost, x0: number[], maxIter: number, random: Random, report: (x: number[], fx: number) => void) {
+  const alpha = 0.602, gamma = 0.101, c = 0.1, A = 0.1 * maxIter;
+  let x = x0.slice();
+  const gradient = (ck: number) => {
+    const delta = x.map(() => (random() < 0.5 ? -1 : 1));
+    const df = f(x.map((v, i) => v + ck * delta[i])) - f(x.map((v, i) => v - ck * delta[i]));
+    return delta.map((s) => df / (2 * ck * s));
+  };
+  let mean = 0;
+  for (let k = 0; k < 5; k++) mean += gradient(c).reduce((acc, g) => acc + Math.abs(g), 0) / x.length / 5;
+  const a = (0.2 * (A + 1) ** alpha) / Math.max(mean, 1e-3);
+  for (let k = 0; k < maxIter; k++) {
+    report(x, f(x));
+    const g = gradient(c / (k + 1) ** gamma);
+    const ak = a / (k + 1 + A) ** alpha;
+    x = x.map((v, i) => v - ak * g[i]);
+  }
+  report(x, f(x));
+}
+
+function optimize(req: VariationalRequest & { job: "optimize" }, emit: (p: Point) => void) {
+  const { symbols, maxIter } = req;
+  const current = circuitSymbols(req.circuit);
+  const start = symbols.map((name) => current.get(name) ?? 0);
+  const named = (x: number[]) => Object.fromEntries(symbols.map((name, i) => [name, x[i]]));
+  const f: Cost = (x) => evaluate(req, named(x));
+  let iteration = 0;
+  const report = (x: number[], fx: number) => emit({ x: iteration++, y: fx, values: named(x) });
+  if (req.method === "nelder-mead") nelderMead(f, start, maxIter, report);
+  else spsa(f, start, maxIter, seededRandom(req.seed), report);
+}
+
+export function runVariational(req: VariationalRequest, post: (msg: VariationalMessage) => void) {
+  const emit = (p: Point) => post({ id: req.id, kind: "point", ...p });
+  if (req.job === "sweep") sweep(req, emit);
+  else optimize(req, emit);
+  post({ id: req.id, kind: "done" });
+}
@@ -0,0 +1,14 @@
+/*
+ * Sweep / optimiser worker: runs one VariationalRequest and streams its points back. The
+ * panel stops a job by terminating the worker, as useSimulation does for simulations.
+ */
+import { runVariational } from "./variational.ts";
+import type { VariationalRequest } from "./variational.ts";
+
+self.addEventListener("message", (e: MessageEvent<VariationalRequest>) => {
+  try {
+    runVariational(e.data, (msg) => self.postMessage(msg));
+  } catch (err) {
+    self.postMessage({ id: e.data.id, kind: "error", error: (err as Error).message });
+  }
+});